@@ -0,0 +1,277 @@
+/**
+ * Szövegek tömörítése storage-ba íráshoz
+ * - gzip/deflate: CompressionStream (async, ahol nem elérhető, ott LZ)
+ * - lz: LZW alapú, szinkron, tisztán TS implementáció
+ * Az eredmény UTF-16 biztos string (karakterenként 15 bit, surrogate-ek nélkül), a formátumot fejléc jelöli,
+ * így a tömörített és a sima értékek megférnek egymás mellett.
+ */
+
+export type CompressionFormat = 'gzip' | 'deflate' | 'lz';
+
+/** Fejlécek (JSON nem kezdődhet ~ karakterrel) */
+const HEADERS: Record<CompressionFormat, string> = {
+    gzip: '~gz~',
+    deflate: '~df~',
+    lz: '~lz~',
+};
+
+/** karakterenként tárolt bitek száma */
+const CHAR_BITS = 15;
+
+/** a karakterkódok eltolása (vezérlőkarakterek elkerülése) */
+const CHAR_OFFSET = 32;
+
+/**
+ * Bitek írása UTF-16 karakterekbe
+ * @return
+ */
+const createBitWriter = function() {
+    const chars: string[] = [];
+    let buffer = 0;
+    let size = 0;
+    return {
+        write: function(value: number, bits: number): void {
+            for (let i = bits - 1; i >= 0; i--) {
+                buffer = (buffer << 1) | ((value >>> i) & 1);
+                size++;
+                if (size === CHAR_BITS) {
+                    chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+                    buffer = 0;
+                    size = 0;
+                }
+            }
+        },
+        end: function(): string {
+            if (size > 0) {
+                chars.push(String.fromCharCode((buffer << (CHAR_BITS - size)) + CHAR_OFFSET));
+            }
+            return chars.join('');
+        },
+    };
+};
+
+/**
+ * Bitek olvasása a createBitWriter-rel írt string-ből
+ * @param data
+ * @return
+ */
+const createBitReader = function(data: string) {
+    let position = 0;
+    return {
+        read: function(bits: number): number {
+            let value = 0;
+            for (let i = 0; i < bits; i++) {
+                const index = Math.floor(position / CHAR_BITS);
+                if (index >= data.length) {
+                    throw new RangeError('Unexpected end of compressed data');
+                }
+                const char = data.charCodeAt(index) - CHAR_OFFSET;
+                value = (value * 2) + ((char >>> (CHAR_BITS - 1 - (position % CHAR_BITS))) & 1);
+                position++;
+            }
+            return value;
+        },
+    };
+};
+
+/**
+ * Ennyi különböző kód ábrázolásához szükséges bitek száma
+ * @param count
+ * @return
+ */
+const bitsFor = function(count: number): number {
+    return Math.max(1, (count - 1).toString(2).length);
+};
+
+/** LZW vezérlőkódok: új karakter következik, adat vége */
+const LITERAL = 0;
+const END = 1;
+
+/**
+ * LZW tömörítés (a szótárba menet közben kerülnek be az új karakterek)
+ * @param text
+ * @return UTF-16 biztos string
+ */
+export const lzCompress = function(text: string): string {
+    const dictionary = new Map<string, number>();
+    const writer = createBitWriter();
+    let count = 2;
+    let word = '';
+    for (const char of text.split('')) {
+        if (!dictionary.has(char)) {
+            if (word) {
+                writer.write(dictionary.get(word) as number, bitsFor(count));
+                dictionary.set(word + char, count++);
+            }
+            writer.write(LITERAL, bitsFor(count));
+            writer.write(char.charCodeAt(0), 16);
+            dictionary.set(char, count++);
+            word = '';
+            continue;
+        }
+        if (dictionary.has(word + char)) {
+            word += char;
+        }
+        else {
+            writer.write(dictionary.get(word) as number, bitsFor(count));
+            dictionary.set(word + char, count++);
+            word = char;
+        }
+    }
+    if (word) {
+        writer.write(dictionary.get(word) as number, bitsFor(count));
+        // a kiolvasó minden kód után bővíti a szótárat, ezt itt is követni kell
+        count++;
+    }
+    writer.write(END, bitsFor(count));
+    return writer.end();
+};
+
+/**
+ * Az lzCompress-szel tömörített string visszaalakítása
+ * @param data
+ * @return
+ */
+export const lzDecompress = function(data: string): string {
+    const dictionary: string[] = ['', ''];
+    const reader = createBitReader(data);
+    const result: string[] = [];
+    let previous: string | null = null;
+    for (;;) {
+        const code = reader.read(bitsFor(dictionary.length + (previous === null ? 0 : 1)));
+        if (code === END) {
+            break;
+        }
+        if (code === LITERAL) {
+            const char = String.fromCharCode(reader.read(16));
+            if (previous !== null) {
+                dictionary.push(previous + char);
+            }
+            dictionary.push(char);
+            result.push(char);
+            previous = null;
+            continue;
+        }
+        let entry: string;
+        if (code < dictionary.length) {
+            entry = dictionary[code];
+        }
+        else if (code === dictionary.length && previous !== null) {
+            entry = previous + previous[0];
+        }
+        else {
+            throw new RangeError('Invalid compressed data');
+        }
+        if (previous !== null) {
+            dictionary.push(previous + entry[0]);
+        }
+        result.push(entry);
+        previous = entry;
+    }
+    return result.join('');
+};
+
+/**
+ * Byte-ok UTF-16 biztos string-gé alakítása (a hossz az elején)
+ * @param bytes
+ * @return
+ */
+const bytesToString = function(bytes: Uint8Array): string {
+    const writer = createBitWriter();
+    writer.write(Math.floor(bytes.length / 0x10000), 16);
+    writer.write(bytes.length % 0x10000, 16);
+    bytes.forEach((byte) => writer.write(byte, 8));
+    return writer.end();
+};
+
+const stringToBytes = function(data: string): Uint8Array<ArrayBuffer> {
+    const reader = createBitReader(data);
+    const length = (reader.read(16) * 0x10000) + reader.read(16);
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        bytes[i] = reader.read(8);
+    }
+    return bytes;
+};
+
+/**
+ * Byte-ok átvezetése egy (de)kompressziós stream-en
+ * @param bytes
+ * @param stream
+ * @return {Promise<Uint8Array>}
+ */
+const pipeBytes = function(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    return new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer().then(
+        (buffer: ArrayBuffer) => new Uint8Array(buffer)
+    );
+};
+
+/**
+ * Tömörítés formátuma a fejléc alapján
+ * @param data
+ * @return null, ha nem tömörített
+ */
+export const compressionFormat = function(data: string): CompressionFormat | null {
+    return (Object.keys(HEADERS) as CompressionFormat[]).find(
+        (format) => data.startsWith(HEADERS[format])
+    ) ?? null;
+};
+
+/**
+ * Szinkron tömörítés (LZ) fejléccel
+ * @param text
+ * @return
+ */
+export const compressTextSync = function(text: string): string {
+    return HEADERS.lz + lzCompress(text);
+};
+
+/**
+ * Szinkron kitömörítés (fejléc nélküli szöveget változatlanul ad vissza)
+ * @param data
+ * @return
+ * @throws {Error} gzip/deflate esetén (azok csak async olvashatók)
+ */
+export const decompressTextSync = function(data: string): string {
+    const format = compressionFormat(data);
+    if (format === null) {
+        return data;
+    }
+    if (format !== 'lz') {
+        throw new Error(`${format} compressed data can only be decompressed asynchronously`);
+    }
+    return lzDecompress(data.slice(HEADERS.lz.length));
+};
+
+/**
+ * Tömörítés fejléccel (CompressionStream hiányában LZ)
+ * @param text
+ * @param format
+ * @return {Promise<string>}
+ * @example
+ *  const compressed = await compressText(JSON.stringify(data), 'gzip');
+ *  const json = await decompressText(compressed);
+ */
+export const compressText = function(text: string, format: CompressionFormat = 'gzip'): Promise<string> {
+    if (format === 'lz' || typeof CompressionStream === 'undefined') {
+        return Promise.resolve(compressTextSync(text));
+    }
+    return pipeBytes(new TextEncoder().encode(text), new CompressionStream(format)).then(
+        (bytes: Uint8Array) => HEADERS[format] + bytesToString(bytes)
+    );
+};
+
+/**
+ * Kitömörítés a fejléc alapján (fejléc nélküli szöveget változatlanul ad vissza)
+ * @param data
+ * @return {Promise<string>}
+ */
+export const decompressText = function(data: string): Promise<string> {
+    const format = compressionFormat(data);
+    if (format === null || format === 'lz') {
+        return new Promise((resolve) => resolve(decompressTextSync(data)));
+    }
+    return pipeBytes(stringToBytes(data.slice(HEADERS[format].length)), new DecompressionStream(format)).then(
+        (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+    );
+};
@@ -0,0 +1,74 @@
+/**
+ * Titkosítás Web Crypto API-val (AES-GCM, PBKDF2 kulcs-származtatás)
+ */
+
+import { FILE } from './utility';
+
+/** AES-GCM inicializáló vektor hossza (byte) */
+const IV_LENGTH = 12;
+
+/**
+ * Véletlen AES-GCM kulcs generálása
+ * @param extractable - exportálható-e a kulcs (crypto.subtle.exportKey)
+ * @return {Promise<CryptoKey>}
+ */
+export const generateKey = function(extractable: boolean = false): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, extractable, ['encrypt', 'decrypt']);
+};
+
+/**
+ * AES-GCM kulcs származtatása jelmondatból (PBKDF2, SHA-256)
+ * @param passphrase - jelmondat
+ * @param salt - só (felhasználónként egyedi, nem titkos)
+ * @param iterations - iterációk száma
+ * @return {Promise<CryptoKey>}
+ * @example
+ *  const key = await deriveKey(password, userId);
+ */
+export const deriveKey = function(
+    passphrase: string, salt: string | Uint8Array<ArrayBuffer>, iterations: number = 310000
+): Promise<CryptoKey> {
+    const encoder = new TextEncoder();
+    return crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']).then(
+        (baseKey: CryptoKey) => crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt: typeof salt === 'string' ? encoder.encode(salt) : salt, iterations, hash: 'SHA-256' },
+            baseKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['encrypt', 'decrypt']
+        )
+    );
+};
+
+/**
+ * Szöveg titkosítása
+ * @param key - AES-GCM kulcs
+ * @param text
+ * @return {Promise<string>} base64 iv és titkosított adat ponttal elválasztva
+ */
+export const encryptText = function(key: CryptoKey, text: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    return crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text)).then(
+        (encrypted: ArrayBuffer) => `${FILE.bytesToBase64(iv)}.${FILE.bytesToBase64(new Uint8Array(encrypted))}`
+    );
+};
+
+/**
+ * Az encryptText-tel titkosított szöveg visszafejtése
+ * @param key - AES-GCM kulcs
+ * @param payload - encryptText eredménye
+ * @return {Promise<string>} rossz kulcs vagy sérült adat esetén reject-elődik
+ */
+export const decryptText = function(key: CryptoKey, payload: string): Promise<string> {
+    return new Promise<Uint8Array<ArrayBuffer>[]>((resolve) => {
+        const parts = payload.split('.');
+        if (parts.length !== 2) {
+            throw new TypeError('Invalid encrypted payload');
+        }
+        resolve(parts.map((part) => FILE.base64ToBytes(part)));
+    }).then(
+        ([iv, data]) => crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data)
+    ).then(
+        (decrypted: ArrayBuffer) => new TextDecoder().decode(decrypted)
+    );
+};
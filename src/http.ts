@@ -0,0 +1,406 @@
+/**
+ * HTTP kliens (tryRequest-re épülő JSON-os kérések)
+ */
+
+import { tryRequest, TryRequestParams } from './utility';
+
+export type QueryValue = string | number | boolean | Date | null | undefined;
+
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+export interface HttpRequest {
+    url: string;
+    method: string;
+    init: RequestInit;
+}
+
+export interface HttpRequestOptions extends Omit<RequestInit, 'body' | 'method' | 'headers'> {
+    /** query string paraméterek */
+    query?: QueryParams;
+    /** request body (sima objektum/tömb esetén JSON-ként küldi) */
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+export type RequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+
+export type ResponseInterceptor = (response: Response, request: HttpRequest) => Response | Promise<Response>;
+
+export interface HttpClientConfig {
+    /** minden kérés url-je elé kerül (abszolút url esetén nem) */
+    baseUrl?: string;
+    /** alapértelmezett header-ök */
+    headers?: Record<string, string>;
+    /** tryRequest újrapróbálási beállításai */
+    retry?: Partial<Omit<TryRequestParams, 'url' | 'options'>>;
+    /** GET kérések deduplikálása és cache-elése (createRequestCache) */
+    cache?: RequestCache;
+}
+
+export interface RequestCacheOptions {
+    /** ennyi ideig (ms) a cache-elt response friss */
+    ttl?: number;
+    /** a ttl lejárta után még ennyi ideig (ms) visszaadható a régi response, miközben a háttérben frissül */
+    staleWhileRevalidate?: number;
+}
+
+/**
+ * Sikertelen HTTP kérés hibája
+ * @property status - HTTP status code (hálózati hiba esetén 0)
+ * @property body - response body (JSON vagy szöveg)
+ * @property url - kérés url-je
+ * @property method - kérés metódusa
+ */
+export class HttpError<B = unknown> extends Error {
+    public readonly status: number;
+    public readonly statusText: string;
+    public readonly body: B;
+    public readonly url: string;
+    public readonly method: string;
+
+    constructor(
+        { status, statusText = '', body, url, method, cause }:
+        { status: number, statusText?: string, body: B, url: string, method: string, cause?: unknown }
+    ) {
+        super(`${method} ${url} failed with status ${status}${statusText ? ` ${statusText}` : ''}`, { cause });
+        this.name = 'HttpError';
+        this.status = status;
+        this.statusText = statusText;
+        this.body = body;
+        this.url = url;
+        this.method = method;
+    }
+}
+
+/**
+ * Objektum átalakítása query string-gé (tömb esetén ismételt kulcsokkal, null/undefined kihagyásával)
+ * @param params - paraméterek
+ * @return query string (? nélkül)
+ * @example
+ *  serializeQuery({ page: 2, tag: ['a', 'b'], q: null }) => 'page=2&tag=a&tag=b'
+ */
+export const serializeQuery = function(params: QueryParams): string {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(
+        ([key, value]) => {
+            (Array.isArray(value) ? value : [value]).forEach(
+                (item: QueryValue) => {
+                    if (item !== null && item !== undefined) {
+                        search.append(key, item instanceof Date ? item.toISOString() : String(item));
+                    }
+                }
+            );
+        }
+    );
+    return search.toString();
+};
+
+/**
+ * Url összeállítása base url-ből, útvonalból és query paraméterekből
+ * @param baseUrl
+ * @param path
+ * @param query
+ * @return {string}
+ */
+const buildUrl = function(baseUrl: string, path: string, query?: QueryParams): string {
+    const url = /^[a-z][a-z\d+\-.]*:\/\//i.test(path) || !baseUrl
+        ? path
+        : `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+    const queryString = query ? serializeQuery(query) : '';
+    if (!queryString) {
+        return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+};
+
+/**
+ * Sima objektum vagy tömb-e (ezeket JSON-ként kell küldeni)
+ * @param body
+ * @return {boolean}
+ */
+const isJsonBody = function(body: unknown): boolean {
+    if (Array.isArray(body)) {
+        return true;
+    }
+    if (body === null || typeof body !== 'object') {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(body);
+    return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Response body beolvasása (JSON content-type esetén parse-olva)
+ * @param response
+ * @return {Promise}
+ */
+const readBody = function(response: Response): Promise<unknown> {
+    if (response.status === 204) {
+        return Promise.resolve(undefined);
+    }
+    return response.text().then(
+        (text: string) => {
+            if (text && response.headers.get('Content-Type')?.includes('json')) {
+                try {
+                    return JSON.parse(text);
+                }
+                catch (_error) {
+                    return text;
+                }
+            }
+            return text || undefined;
+        }
+    );
+};
+
+/**
+ * Alapértelmezett cache kulcs: az url, header-ök esetén (pl. Authorization) azokkal kiegészítve
+ * @param params - tryRequest paraméterei
+ * @return
+ */
+const requestKey = function({ url, options = { } }: TryRequestParams): string {
+    const headers: [string, string][] = [];
+    new Headers(options.headers).forEach(
+        (value: string, name: string) => headers.push([name, value])
+    );
+    return headers.length > 0 ? `${url} ${JSON.stringify(headers)}` : url;
+};
+
+/**
+ * Promise megszakíthatóvá tétele (csak az adott hívó promise-a rejectel, a mögöttes művelet fut tovább)
+ * @param promise
+ * @param signal
+ * @return {Promise}
+ */
+const withSignal = function<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = (): void => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(
+            () => signal.removeEventListener('abort', onAbort)
+        );
+    });
+};
+
+/**
+ * GET kérések deduplikálása (egyidejű azonos kérésekből egy fetch lesz) és sikeres response-ok cache-elése
+ * A közös fetch a hívók signal-ja nélkül fut, egy hívó megszakítása csak a saját promise-át rejecteli.
+ * @param options - ttl, staleWhileRevalidate
+ * @return cache objektum (minden hívó a response saját klónját kapja)
+ * @example
+ *  const cache = createRequestCache({ ttl: 60000, staleWhileRevalidate: 300000 });
+ *  const response = await cache.request({ times: 3, url: '/api/teams' });
+ *  cache.invalidatePrefix('/api/teams');
+ *  // vagy a HTTP klienssel:
+ *  const api = createHttpClient({ baseUrl: '/api', cache });
+ */
+export const createRequestCache = function({ ttl = 0, staleWhileRevalidate = 0 }: RequestCacheOptions = { }) {
+    const inFlight = new Map<string, Promise<Response>>();
+    const entries = new Map<string, { response: Response, storedAt: number }>();
+
+    const load = function(key: string, params: TryRequestParams): Promise<Response> {
+        const { signal, ...options } = params.options ?? { };
+        let pending = inFlight.get(key);
+        if (!pending) {
+            const current: Promise<Response> = tryRequest({ ...params, options }).then(
+                (response: Response) => {
+                    if (inFlight.get(key) === current && (ttl > 0 || staleWhileRevalidate > 0)) {
+                        entries.set(key, { response: response.clone(), storedAt: Date.now() });
+                    }
+                    return response;
+                }
+            ).finally(
+                () => {
+                    if (inFlight.get(key) === current) {
+                        inFlight.delete(key);
+                    }
+                }
+            );
+            inFlight.set(key, current);
+            pending = current;
+        }
+        return withSignal(pending, signal).then(
+            (response: Response) => response.clone(),
+            (reason: unknown) => {
+                // a sikertelen (nem 2xx) response-t is minden hívó saját klónként kapja
+                throw reason instanceof Response ? reason.clone() : reason;
+            }
+        );
+    };
+
+    /**
+     * Kérés a cache-en keresztül (csak GET kérések, a többi közvetlenül a tryRequest-hez kerül)
+     * @param params - tryRequest paraméterei
+     * @param key - cache kulcs (alapértelmezetten az url és a header-ök)
+     * @return {Promise<Response>}
+     */
+    const request = function(params: TryRequestParams, key: string = requestKey(params)): Promise<Response> {
+        const method = (params.options?.method ?? 'GET').toUpperCase();
+        if (method !== 'GET') {
+            return tryRequest(params);
+        }
+        const entry = entries.get(key);
+        if (entry) {
+            const age = Date.now() - entry.storedAt;
+            if (age < ttl) {
+                return Promise.resolve(entry.response.clone());
+            }
+            if (age < ttl + staleWhileRevalidate) {
+                load(key, { ...params, options: { ...params.options, signal: undefined } }).catch(() => undefined);
+                return Promise.resolve(entry.response.clone());
+            }
+            entries.delete(key);
+        }
+        return load(key, params);
+    };
+
+    return {
+        request,
+        /** egy kulcs törlése (url esetén a header-ökkel kiegészített kulcsai is) */
+        invalidate: function(key: string): void {
+            [...entries.keys(), ...inFlight.keys()].forEach(
+                (current: string) => {
+                    if (current === key || current.startsWith(`${key} `)) {
+                        entries.delete(current);
+                        inFlight.delete(current);
+                    }
+                }
+            );
+        },
+        /** adott prefix-szel kezdődő kulcsok törlése */
+        invalidatePrefix: function(prefix: string): void {
+            [...entries.keys(), ...inFlight.keys()].forEach(
+                (key: string) => {
+                    if (key.startsWith(prefix)) {
+                        entries.delete(key);
+                        inFlight.delete(key);
+                    }
+                }
+            );
+        },
+        /** teljes cache törlése */
+        clear: function(): void {
+            entries.clear();
+            inFlight.clear();
+        },
+    };
+};
+
+export type RequestCache = ReturnType<typeof createRequestCache>;
+
+/**
+ * HTTP kliens létrehozása
+ * @param config - beállítások
+ * @return kliens objektum
+ * @example
+ *  const api = createHttpClient({ baseUrl: '/api', headers: { 'X-App': 'cube' }, retry: { times: 3 } });
+ *  api.interceptors.request.use((request) => {
+ *      request.init.headers = { ...request.init.headers, Authorization: `Bearer ${token}` };
+ *      return request;
+ *  });
+ *  const teams = await api.get<Team[]>('/teams', { query: { page: 2 } });
+ *  await api.post<Team>('/teams', { body: { name: 'A' } });
+ */
+export const createHttpClient = function({ baseUrl = '', headers = { }, retry = { }, cache }: HttpClientConfig = { }) {
+    const requestInterceptors: RequestInterceptor[] = [];
+    const responseInterceptors: ResponseInterceptor[] = [];
+
+    const use = function<I>(list: I[], interceptor: I): () => void {
+        list.push(interceptor);
+        return () => {
+            const index = list.indexOf(interceptor);
+            if (index > -1) {
+                list.splice(index, 1);
+            }
+        };
+    };
+
+    const request = function<T>(
+        method: string, path: string, { query, body, headers: extraHeaders, ...init }: HttpRequestOptions = { }
+    ): Promise<T> {
+        const requestHeaders: Record<string, string> = { Accept: 'application/json', ...headers, ...extraHeaders };
+        let requestBody = body as BodyInit | undefined;
+        if (isJsonBody(body)) {
+            requestBody = JSON.stringify(body);
+            requestHeaders['Content-Type'] ??= 'application/json';
+        }
+        const initial: HttpRequest = {
+            url: buildUrl(baseUrl, path, query),
+            method,
+            init: { ...init, method, headers: requestHeaders, body: requestBody },
+        };
+
+        return requestInterceptors.reduce(
+            (acc: Promise<HttpRequest>, interceptor: RequestInterceptor) => acc.then(interceptor),
+            Promise.resolve(initial)
+        ).then(
+            (finalRequest: HttpRequest) => (cache?.request ?? tryRequest)({
+                times: 1,
+                ...retry,
+                url: finalRequest.url,
+                options: finalRequest.init,
+            }).catch(
+                (error: unknown) => {
+                    if (error instanceof Response) {
+                        return error;
+                    }
+                    throw new HttpError({
+                        status: 0,
+                        body: undefined,
+                        url: finalRequest.url,
+                        method: finalRequest.method,
+                        cause: error,
+                    });
+                }
+            ).then(
+                (response: Response) => responseInterceptors.reduce(
+                    (acc: Promise<Response>, interceptor: ResponseInterceptor) => acc.then(
+                        (current: Response) => interceptor(current, finalRequest)
+                    ),
+                    Promise.resolve(response)
+                )
+            ).then(
+                (response: Response) => readBody(response).then(
+                    (data: unknown) => {
+                        if (!response.ok) {
+                            throw new HttpError({
+                                status: response.status,
+                                statusText: response.statusText,
+                                body: data,
+                                url: finalRequest.url,
+                                method: finalRequest.method,
+                            });
+                        }
+                        return data as T;
+                    }
+                )
+            )
+        );
+    };
+
+    return {
+        request,
+        get: <T>(path: string, options?: HttpRequestOptions) => request<T>('GET', path, options),
+        post: <T>(path: string, options?: HttpRequestOptions) => request<T>('POST', path, options),
+        put: <T>(path: string, options?: HttpRequestOptions) => request<T>('PUT', path, options),
+        patch: <T>(path: string, options?: HttpRequestOptions) => request<T>('PATCH', path, options),
+        delete: <T>(path: string, options?: HttpRequestOptions) => request<T>('DELETE', path, options),
+        interceptors: {
+            request: {
+                use: (interceptor: RequestInterceptor) => use(requestInterceptors, interceptor),
+            },
+            response: {
+                use: (interceptor: ResponseInterceptor) => use(responseInterceptors, interceptor),
+            },
+        },
+    };
+};
+
+export type HttpClient = ReturnType<typeof createHttpClient>;
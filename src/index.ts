@@ -1,19 +1,30 @@
 export {
     switching,
     condition,
+    conditionLazy,
+    conditionAsync,
+    ConditionError,
+    match,
+    MatchError,
     delay,
     promiseSequence,
     promiseSettledSequence,
     promiseSequenceAll,
+    SequenceAbortError,
+    promisePool,
+    promiseSettledPool,
     tryRequest,
     macrotask,
     toggleArray,
     sortDescriptor,
     sortDescriptorByList,
+    createComparator,
+    compareTyped,
     getPercentage,
     ratioRange,
     arrayToMap,
     ArrayOfObjects,
+    Aggregate,
     SVG,
     IMG,
     FILE,
@@ -28,3 +39,33 @@ export {
     reverseMapper,
     animate,
 } from './utility';
+export type {
+    ComparatorOptions,
+    GroupKey,
+    Match,
+    NestedGroups,
+    PromisePoolOptions,
+    PromisePoolProgress,
+    RetryInfo,
+    SortKey,
+    TypedCompareOptions,
+    TryRequestParams,
+} from './utility';
+export {
+    createHttpClient,
+    createRequestCache,
+    serializeQuery,
+    HttpError,
+} from './http';
+export type {
+    HttpClient,
+    HttpClientConfig,
+    HttpRequest,
+    HttpRequestOptions,
+    QueryParams,
+    QueryValue,
+    RequestCache,
+    RequestCacheOptions,
+    RequestInterceptor,
+    ResponseInterceptor,
+} from './http';
@@ -0,0 +1,909 @@
+/**
+ * Memóriában tároló storage backend-ek (Node, SSR, tesztek)
+ * - createMemoryStorage: Storage (localStorage/sessionStorage) kompatibilis
+ * - createMemoryIndexedDB: az IndexedDB API DB által használt része (store-ok, indexek, tranzakciók, cursor-ok)
+ */
+
+import { cloneDeepWith } from 'lodash';
+
+type KeyPath = string | string[];
+
+interface MemoryRecord {
+    key: IDBValidKey;
+    value: unknown;
+}
+
+interface MemoryIndexData {
+    name: string;
+    keyPath: KeyPath;
+    unique: boolean;
+    multiEntry: boolean;
+}
+
+interface MemoryStoreData {
+    name: string;
+    keyPath: KeyPath | null;
+    autoIncrement: boolean;
+    currentKey: number;
+    records: MemoryRecord[];
+    indexes: Map<string, MemoryIndexData>;
+}
+
+interface MemoryDatabaseData {
+    name: string;
+    version: number;
+    stores: Map<string, MemoryStoreData>;
+    connections: Set<any>;
+    /** verzióváltásra váró open kérések (a régi kapcsolatok bezárásáig és a tranzakcióik lefutásáig) */
+    waiting: (() => boolean)[];
+    /** tranzakciók sora (egyszerre egy fut) */
+    transactions: any[];
+}
+
+interface MemoryKeyRange {
+    lower: IDBValidKey | undefined;
+    upper: IDBValidKey | undefined;
+    lowerOpen: boolean;
+    upperOpen: boolean;
+    includes: (key: IDBValidKey) => boolean;
+}
+
+interface MemoryCursorEntry {
+    key: IDBValidKey;
+    primaryKey: IDBValidKey;
+    value: unknown;
+}
+
+/**
+ * Memóriában tároló Storage (localStorage/sessionStorage helyett)
+ * @param options - quota: maximális méret byte-ban (UTF-16, mint a böngészőkben), túllépéskor QuotaExceededError
+ * @return {Storage}
+ */
+export const createMemoryStorage = function({ quota = Infinity }: { quota?: number } = { }): Storage {
+    const items = new Map<string, string>();
+    const size = (): number => [...items].reduce((acc, [key, value]) => acc + (key.length + value.length) * 2, 0);
+    return {
+        get length(): number {
+            return items.size;
+        },
+        key: (index: number): string | null => [...items.keys()][index] ?? null,
+        getItem: (key: string): string | null => items.get(String(key)) ?? null,
+        setItem: (key: string, value: string): void => {
+            const previous = items.get(String(key));
+            items.set(String(key), String(value));
+            if (size() > quota) {
+                if (previous === undefined) {
+                    items.delete(String(key));
+                }
+                else {
+                    items.set(String(key), previous);
+                }
+                throw new DOMException(`Setting the value of '${key}' exceeded the quota.`, 'QuotaExceededError');
+            }
+        },
+        removeItem: (key: string): void => {
+            items.delete(String(key));
+        },
+        clear: (): void => {
+            items.clear();
+        },
+    };
+};
+
+const keyType = function(key: unknown): number {
+    if (typeof key === 'number' && !Number.isNaN(key)) {
+        return 1;
+    }
+    if (key instanceof Date && !Number.isNaN(key.getTime())) {
+        return 2;
+    }
+    if (typeof key === 'string') {
+        return 3;
+    }
+    if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) {
+        return 4;
+    }
+    if (Array.isArray(key)) {
+        return 5;
+    }
+    throw new DOMException('The parameter is not a valid key.', 'DataError');
+};
+
+const toBytes = function(key: ArrayBuffer | ArrayBufferView): Uint8Array {
+    return key instanceof ArrayBuffer ? new Uint8Array(key) : new Uint8Array(key.buffer, key.byteOffset, key.byteLength);
+};
+
+/**
+ * Kulcsok összehasonlítása az IndexedDB sorrendje szerint (number < Date < string < binary < array)
+ * @param a
+ * @param b
+ * @return -1 | 0 | 1
+ */
+export const compareKeys = function(a: IDBValidKey, b: IDBValidKey): number {
+    const typeA = keyType(a);
+    const typeB = keyType(b);
+    if (typeA !== typeB) {
+        return typeA < typeB ? -1 : 1;
+    }
+    if (typeA === 4) {
+        const bytesA = toBytes(a as ArrayBuffer);
+        const bytesB = toBytes(b as ArrayBuffer);
+        for (let i = 0; i < Math.min(bytesA.length, bytesB.length); i++) {
+            if (bytesA[i] !== bytesB[i]) {
+                return bytesA[i] < bytesB[i] ? -1 : 1;
+            }
+        }
+        return Math.sign(bytesA.length - bytesB.length);
+    }
+    if (typeA === 5) {
+        const arrayA = a as IDBValidKey[];
+        const arrayB = b as IDBValidKey[];
+        for (let i = 0; i < Math.min(arrayA.length, arrayB.length); i++) {
+            const result = compareKeys(arrayA[i], arrayB[i]);
+            if (result !== 0) {
+                return result;
+            }
+        }
+        return Math.sign(arrayA.length - arrayB.length);
+    }
+    const valueA = typeA === 2 ? (a as Date).getTime() : a;
+    const valueB = typeA === 2 ? (b as Date).getTime() : b;
+    return valueA < valueB ? -1 : (valueA > valueB ? 1 : 0);
+};
+
+const isValidKey = function(key: unknown): key is IDBValidKey {
+    try {
+        keyType(key);
+        return !Array.isArray(key) || key.every(isValidKey);
+    }
+    catch (_error) {
+        return false;
+    }
+};
+
+const createKeyRange = function(
+    lower: IDBValidKey | undefined, upper: IDBValidKey | undefined, lowerOpen: boolean, upperOpen: boolean
+): MemoryKeyRange {
+    return {
+        lower,
+        upper,
+        lowerOpen,
+        upperOpen,
+        includes: (key: IDBValidKey): boolean => {
+            if (lower !== undefined) {
+                const result = compareKeys(key, lower);
+                if (result < 0 || (result === 0 && lowerOpen)) {
+                    return false;
+                }
+            }
+            if (upper !== undefined) {
+                const result = compareKeys(key, upper);
+                if (result > 0 || (result === 0 && upperOpen)) {
+                    return false;
+                }
+            }
+            return true;
+        },
+    };
+};
+
+/**
+ * IDBKeyRange megfelelője (ha a böngészős IDBKeyRange nem elérhető)
+ */
+export const MemoryKeyRange = {
+    only: (value: IDBValidKey): IDBKeyRange => createKeyRange(value, value, false, false) as unknown as IDBKeyRange,
+    bound: (lower: IDBValidKey, upper: IDBValidKey, lowerOpen: boolean = false, upperOpen: boolean = false): IDBKeyRange => (
+        createKeyRange(lower, upper, lowerOpen, upperOpen) as unknown as IDBKeyRange
+    ),
+    lowerBound: (lower: IDBValidKey, open: boolean = false): IDBKeyRange => (
+        createKeyRange(lower, undefined, open, true) as unknown as IDBKeyRange
+    ),
+    upperBound: (upper: IDBValidKey, open: boolean = false): IDBKeyRange => (
+        createKeyRange(undefined, upper, true, open) as unknown as IDBKeyRange
+    ),
+};
+
+/**
+ * Lekérdezés (kulcs vagy kulcstartomány) tartománnyá alakítása
+ * @param query
+ * @return
+ */
+const toRange = function(query: unknown): MemoryKeyRange | null {
+    if (query === undefined || query === null) {
+        return null;
+    }
+    if (typeof query === 'object' && 'lowerOpen' in query && typeof (query as MemoryKeyRange).includes === 'function') {
+        return query as MemoryKeyRange;
+    }
+    return createKeyRange(query as IDBValidKey, query as IDBValidKey, false, false);
+};
+
+const extractKey = function(value: unknown, keyPath: KeyPath): IDBValidKey | undefined {
+    if (Array.isArray(keyPath)) {
+        const keys = keyPath.map((path) => extractKey(value, path));
+        return keys.some((key) => key === undefined) ? undefined : keys as IDBValidKey[];
+    }
+    if (keyPath === '') {
+        return value as IDBValidKey;
+    }
+    return keyPath.split('.').reduce(
+        (current: any, prop: string) => (current !== null && typeof current === 'object' ? current[prop] : undefined),
+        value as any
+    );
+};
+
+const injectKey = function(value: unknown, keyPath: string, key: IDBValidKey): void {
+    const props = keyPath.split('.');
+    const last = props.pop() as string;
+    const target = props.reduce(
+        (current: any, prop: string) => (current[prop] ??= { }),
+        value as any
+    );
+    target[last] = key;
+};
+
+/**
+ * Tárolt érték másolása (a Blob-ok nem módosíthatók, ezért azokat nem kell másolni)
+ * @param value
+ * @return
+ */
+const cloneValue = function<T>(value: T): T {
+    return cloneDeepWith(value, (item: unknown) => (typeof Blob !== 'undefined' && item instanceof Blob ? item : undefined));
+};
+
+const createEvent = function(type: string, target: unknown, extra: object = { }) {
+    const event = {
+        type,
+        target,
+        currentTarget: target,
+        defaultPrevented: false,
+        propagationStopped: false,
+        preventDefault: (): void => {
+            event.defaultPrevented = true;
+        },
+        stopPropagation: (): void => {
+            event.propagationStopped = true;
+        },
+        ...extra,
+    };
+    return event;
+};
+
+const createStringList = function(names: Iterable<string>) {
+    const sorted = [...names].sort();
+    return Object.assign(sorted, {
+        contains: (name: string): boolean => sorted.includes(name),
+        item: (index: number): string | null => sorted[index] ?? null,
+    });
+};
+
+const cloneStore = function(store: MemoryStoreData): MemoryStoreData {
+    return { ...store, records: [...store.records], indexes: new Map(store.indexes) };
+};
+
+const createRequest = function(source: unknown, transaction: unknown) {
+    return {
+        source,
+        transaction,
+        result: undefined as unknown,
+        error: null as DOMException | null,
+        readyState: 'pending' as IDBRequestReadyState,
+        onsuccess: null as ((event: any) => void) | null,
+        onerror: null as ((event: any) => void) | null,
+    };
+};
+
+type MemoryRequest = ReturnType<typeof createRequest>;
+
+/**
+ * Memóriában tároló tranzakció
+ * A kérések macrotask-onként egymás után futnak, így a success callback-ekben (és az azokra épülő
+ * promise láncokban) indított új kérések ugyanabba a tranzakcióba kerülnek; ha nincs több kérés, commit.
+ * Egy adatbázison egyszerre egy tranzakció fut, a store-ok a tranzakció indulásakor másolódnak.
+ */
+const createTransaction = function(
+    connection: any,
+    data: MemoryDatabaseData,
+    storeNames: string[],
+    mode: IDBTransactionMode | 'versionchange',
+    hooks: { complete?: () => void, abort?: (error: DOMException | null) => void } = { }
+) {
+    let working = new Map<string, MemoryStoreData>();
+    const deletedStores = new Set<string>();
+    const queue: ((aborted?: boolean) => void)[] = [];
+    let started = false;
+    let finished = false;
+    let scheduled = false;
+
+    const transaction = {
+        db: connection,
+        mode,
+        error: null as DOMException | null,
+        oncomplete: null as ((event: any) => void) | null,
+        onabort: null as ((event: any) => void) | null,
+        onerror: null as ((event: any) => void) | null,
+        get objectStoreNames() {
+            return createStringList(mode === 'versionchange' ? working.keys() : storeNames);
+        },
+        objectStore: function(name: string) {
+            assertActive();
+            if (started ? !working.has(name) : !storeNames.includes(name)) {
+                throw new DOMException(`No objectStore named ${name} in this transaction.`, 'NotFoundError');
+            }
+            return createObjectStoreHandle(name);
+        },
+        abort: function(): void {
+            if (finished) {
+                throw new DOMException('The transaction has finished.', 'InvalidStateError');
+            }
+            abortTransaction(null);
+        },
+        commit: function(): void {
+            // a kérések elfogyása után automatikusan commit-ol
+        },
+        /** belső: store létrehozása/törlése verzióváltáskor */
+        addStore: (store: MemoryStoreData): void => {
+            working.set(store.name, store);
+            deletedStores.delete(store.name);
+        },
+        removeStore: (name: string): void => {
+            working.delete(name);
+            deletedStores.add(name);
+        },
+    };
+
+    const assertActive = function(): void {
+        if (finished) {
+            throw new DOMException('The transaction has finished.', 'TransactionInactiveError');
+        }
+    };
+
+    const assertWritable = function(): void {
+        if (mode === 'readonly') {
+            throw new DOMException('The transaction is read-only.', 'ReadOnlyError');
+        }
+    };
+
+    /** a tranzakció indulása előtt csak a séma olvasható (a kérések az induláskor készült másolaton futnak) */
+    const getStore = (name: string): MemoryStoreData => (started ? working.get(name) : data.stores.get(name)) as MemoryStoreData;
+
+    const schedule = function(): void {
+        if (!scheduled && started && !finished) {
+            scheduled = true;
+            setTimeout(tick, 0);
+        }
+    };
+
+    const tick = function(): void {
+        scheduled = false;
+        if (finished) {
+            return;
+        }
+        const job = queue.shift();
+        if (job) {
+            job();
+            schedule();
+        }
+        else {
+            commit();
+        }
+    };
+
+    const start = function(): void {
+        started = true;
+        working = new Map(
+            (mode === 'versionchange' ? [...data.stores.keys()] : storeNames).map(
+                (name) => [name, cloneStore(data.stores.get(name) as MemoryStoreData)]
+            )
+        );
+        schedule();
+    };
+
+    const finish = function(): void {
+        finished = true;
+        data.transactions.shift();
+        if (data.transactions.length > 0) {
+            data.transactions[0].start();
+        }
+        else {
+            data.waiting = data.waiting.filter((proceed) => !proceed());
+        }
+    };
+
+    const commit = function(): void {
+        if (mode === 'versionchange') {
+            data.stores = new Map(working);
+        }
+        else {
+            working.forEach((store, name) => data.stores.set(name, store));
+        }
+        finish();
+        transaction.oncomplete?.(createEvent('complete', transaction));
+        hooks.complete?.();
+    };
+
+    const abortTransaction = function(error: DOMException | null): void {
+        transaction.error = error;
+        finish();
+        queue.splice(0).forEach((job) => job(true));
+        transaction.onabort?.(createEvent('abort', transaction));
+        hooks.abort?.(error);
+    };
+
+    const enqueue = function(request: MemoryRequest, operation: () => unknown): MemoryRequest {
+        assertActive();
+        request.readyState = 'pending';
+        const job = (aborted: boolean = false): void => {
+            request.readyState = 'done';
+            if (aborted) {
+                request.error = new DOMException('The transaction was aborted.', 'AbortError');
+                request.onerror?.(createEvent('error', request));
+                return;
+            }
+            try {
+                request.result = operation();
+                request.error = null;
+            }
+            catch (error) {
+                request.result = undefined;
+                request.error = error as DOMException;
+                const event = createEvent('error', request);
+                request.onerror?.(event);
+                if (!event.propagationStopped) {
+                    transaction.onerror?.(event);
+                }
+                if (!event.defaultPrevented && !finished) {
+                    abortTransaction(request.error);
+                }
+                return;
+            }
+            try {
+                request.onsuccess?.(createEvent('success', request));
+            }
+            catch (error) {
+                if (!finished) {
+                    abortTransaction(error as DOMException);
+                }
+            }
+        };
+        queue.push(job);
+        schedule();
+        return request;
+    };
+
+    const findIndex = (records: MemoryRecord[], key: IDBValidKey): number => (
+        records.findIndex((record) => compareKeys(record.key, key) === 0)
+    );
+
+    const indexEntries = function(store: MemoryStoreData, index: MemoryIndexData): MemoryCursorEntry[] {
+        const entries: MemoryCursorEntry[] = [];
+        store.records.forEach(
+            (record) => {
+                const key = extractKey(record.value, index.keyPath);
+                const keys = index.multiEntry && Array.isArray(key) ? key : [key];
+                keys.filter(isValidKey).forEach(
+                    (indexKey, position) => {
+                        if (keys.findIndex((other) => isValidKey(other) && compareKeys(other, indexKey) === 0) === position) {
+                            entries.push({ key: indexKey, primaryKey: record.key, value: record.value });
+                        }
+                    }
+                );
+            }
+        );
+        return entries.sort(
+            (a, b) => compareKeys(a.key, b.key) || compareKeys(a.primaryKey, b.primaryKey)
+        );
+    };
+
+    const storeEntries = (store: MemoryStoreData): MemoryCursorEntry[] => store.records.map(
+        (record) => ({ key: record.key, primaryKey: record.key, value: record.value })
+    );
+
+    const filterEntries = function(entries: MemoryCursorEntry[], query: unknown, direction: IDBCursorDirection = 'next') {
+        const range = toRange(query);
+        const filtered = range ? entries.filter((entry) => range.includes(entry.key)) : entries;
+        const unique = direction.endsWith('unique')
+            ? filtered.filter((entry, i) => i === 0 || compareKeys(filtered[i - 1].key, entry.key) !== 0)
+            : filtered;
+        return direction.startsWith('prev') ? [...unique].reverse() : unique;
+    };
+
+    const write = function(storeName: string, value: unknown, key: IDBValidKey | undefined, overwrite: boolean): IDBValidKey {
+        const store = getStore(storeName);
+        let recordKey: IDBValidKey | undefined;
+        if (store.keyPath !== null) {
+            if (key !== undefined) {
+                throw new DOMException('The object store uses in-line keys.', 'DataError');
+            }
+            recordKey = extractKey(value, store.keyPath);
+            if (recordKey === undefined && store.autoIncrement && typeof store.keyPath === 'string') {
+                recordKey = store.currentKey + 1;
+                injectKey(value, store.keyPath, recordKey);
+            }
+        }
+        else {
+            recordKey = key ?? (store.autoIncrement ? store.currentKey + 1 : undefined);
+        }
+        if (!isValidKey(recordKey)) {
+            throw new DOMException('The key is not valid.', 'DataError');
+        }
+        const validKey = recordKey;
+        if (store.autoIncrement && typeof validKey === 'number' && validKey > store.currentKey) {
+            store.currentKey = Math.floor(validKey);
+        }
+        const position = findIndex(store.records, validKey);
+        if (position > -1 && !overwrite) {
+            throw new DOMException('Key already exists in the object store.', 'ConstraintError');
+        }
+        store.indexes.forEach(
+            (index) => {
+                if (index.unique) {
+                    const newKeys = indexEntries({ ...store, records: [{ key: validKey, value }] }, index);
+                    const existing = indexEntries(store, index).filter((entry) => compareKeys(entry.primaryKey, validKey) !== 0);
+                    if (newKeys.some((newKey) => existing.some((entry) => compareKeys(entry.key, newKey.key) === 0))) {
+                        throw new DOMException(`Unique index ${index.name} constraint failed.`, 'ConstraintError');
+                    }
+                }
+            }
+        );
+        if (position > -1) {
+            store.records[position] = { key: validKey, value };
+        }
+        else {
+            const insertAt = store.records.findIndex((record) => compareKeys(record.key, validKey) > 0);
+            store.records.splice(insertAt === -1 ? store.records.length : insertAt, 0, { key: validKey, value });
+        }
+        return validKey;
+    };
+
+    const openCursor = function(
+        source: unknown, getEntries: () => MemoryCursorEntry[], query: unknown, direction: IDBCursorDirection = 'next'
+    ): MemoryRequest {
+        const request = createRequest(source, transaction);
+        let entries: MemoryCursorEntry[] | null = null;
+        let position = 0;
+        const cursor = {
+            source,
+            request,
+            direction,
+            get key() {
+                return entries?.[position]?.key;
+            },
+            get primaryKey() {
+                return entries?.[position]?.primaryKey;
+            },
+            get value() {
+                return cloneValue(entries?.[position]?.value);
+            },
+            continue: function(key?: IDBValidKey): void {
+                enqueue(request, () => {
+                    const ascending = direction.startsWith('next');
+                    position++;
+                    while (
+                        key !== undefined && entries && position < entries.length
+                        && (ascending ? compareKeys(entries[position].key, key) < 0 : compareKeys(entries[position].key, key) > 0)
+                    ) {
+                        position++;
+                    }
+                    return current();
+                });
+            },
+            advance: function(count: number): void {
+                enqueue(request, () => {
+                    position += count;
+                    return current();
+                });
+            },
+        };
+        const current = () => (entries && position < entries.length ? cursor : null);
+        return enqueue(request, () => {
+            entries = filterEntries(getEntries(), query, direction);
+            return current();
+        });
+    };
+
+    const createIndexHandle = function(storeName: string, name: string) {
+        const getIndex = (): MemoryIndexData => getStore(storeName).indexes.get(name) as MemoryIndexData;
+        const entries = (): MemoryCursorEntry[] => indexEntries(getStore(storeName), getIndex());
+        const handle = {
+            name,
+            get keyPath() {
+                return getIndex().keyPath;
+            },
+            get unique() {
+                return getIndex().unique;
+            },
+            get multiEntry() {
+                return getIndex().multiEntry;
+            },
+            get objectStore() {
+                return createObjectStoreHandle(storeName);
+            },
+            get: (query: unknown) => enqueue(createRequest(handle, transaction), () => (
+                cloneValue(filterEntries(entries(), query)[0]?.value)
+            )),
+            getKey: (query: unknown) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(entries(), query)[0]?.primaryKey
+            )),
+            getAll: (query?: unknown, count?: number) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(entries(), query).slice(0, count || undefined).map((entry) => cloneValue(entry.value))
+            )),
+            count: (query?: unknown) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(entries(), query).length
+            )),
+            openCursor: (query?: unknown, direction?: IDBCursorDirection) => openCursor(handle, entries, query, direction),
+        };
+        return handle;
+    };
+
+    const createObjectStoreHandle = function(name: string) {
+        const store = (): MemoryStoreData => {
+            assertActive();
+            return getStore(name);
+        };
+        const handle = {
+            name,
+            transaction,
+            get keyPath() {
+                return getStore(name).keyPath;
+            },
+            get autoIncrement() {
+                return getStore(name).autoIncrement;
+            },
+            get indexNames() {
+                return createStringList(getStore(name).indexes.keys());
+            },
+            get: (query: unknown) => enqueue(createRequest(handle, transaction), () => (
+                cloneValue(filterEntries(storeEntries(store()), query)[0]?.value)
+            )),
+            getKey: (query: unknown) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(storeEntries(store()), query)[0]?.key
+            )),
+            getAll: (query?: unknown, count?: number) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(storeEntries(store()), query).slice(0, count || undefined).map((entry) => cloneValue(entry.value))
+            )),
+            getAllKeys: (query?: unknown, count?: number) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(storeEntries(store()), query).slice(0, count || undefined).map((entry) => entry.key)
+            )),
+            count: (query?: unknown) => enqueue(createRequest(handle, transaction), () => (
+                filterEntries(storeEntries(store()), query).length
+            )),
+            add: (value: unknown, key?: IDBValidKey) => {
+                assertWritable();
+                const cloned = cloneValue(value);
+                return enqueue(createRequest(handle, transaction), () => write(name, cloned, key, false));
+            },
+            put: (value: unknown, key?: IDBValidKey) => {
+                assertWritable();
+                const cloned = cloneValue(value);
+                return enqueue(createRequest(handle, transaction), () => write(name, cloned, key, true));
+            },
+            delete: (query: unknown) => {
+                assertWritable();
+                return enqueue(createRequest(handle, transaction), () => {
+                    const range = toRange(query) as MemoryKeyRange;
+                    store().records = store().records.filter((record) => !range.includes(record.key));
+                    return undefined;
+                });
+            },
+            clear: () => {
+                assertWritable();
+                return enqueue(createRequest(handle, transaction), () => {
+                    store().records = [];
+                    return undefined;
+                });
+            },
+            openCursor: (query?: unknown, direction?: IDBCursorDirection) => openCursor(
+                handle, () => storeEntries(store()), query, direction
+            ),
+            index: (indexName: string) => {
+                if (!getStore(name).indexes.has(indexName)) {
+                    throw new DOMException(`No index named ${indexName}.`, 'NotFoundError');
+                }
+                return createIndexHandle(name, indexName);
+            },
+            createIndex: (indexName: string, keyPath: KeyPath, { unique = false, multiEntry = false } = { }) => {
+                if (mode !== 'versionchange') {
+                    throw new DOMException('Indexes can only be created during a version change.', 'InvalidStateError');
+                }
+                if (getStore(name).indexes.has(indexName)) {
+                    throw new DOMException(`Index ${indexName} already exists.`, 'ConstraintError');
+                }
+                getStore(name).indexes.set(indexName, { name: indexName, keyPath, unique, multiEntry });
+                return createIndexHandle(name, indexName);
+            },
+            deleteIndex: (indexName: string) => {
+                if (mode !== 'versionchange') {
+                    throw new DOMException('Indexes can only be deleted during a version change.', 'InvalidStateError');
+                }
+                getStore(name).indexes.delete(indexName);
+            },
+        };
+        return handle;
+    };
+
+    data.transactions.push({ start });
+    if (data.transactions.length === 1) {
+        start();
+    }
+
+    return transaction;
+};
+
+/**
+ * Memóriában tároló IndexedDB (az IDBFactory open/deleteDatabase/cmp része)
+ * @return {IDBFactory}
+ * @example
+ *  setStorageBackend({ indexedDB: createMemoryIndexedDB() });
+ */
+export const createMemoryIndexedDB = function(): IDBFactory {
+    const databases = new Map<string, MemoryDatabaseData>();
+
+    const createConnection = function(data: MemoryDatabaseData) {
+        let upgradeTransaction: ReturnType<typeof createTransaction> | null = null;
+        const connection = {
+            name: data.name,
+            version: data.version,
+            closed: false,
+            onversionchange: null as ((event: any) => void) | null,
+            onclose: null as ((event: any) => void) | null,
+            onabort: null as ((event: any) => void) | null,
+            onerror: null as ((event: any) => void) | null,
+            get objectStoreNames() {
+                return upgradeTransaction ? upgradeTransaction.objectStoreNames : createStringList(data.stores.keys());
+            },
+            setUpgradeTransaction: (transaction: ReturnType<typeof createTransaction> | null): void => {
+                upgradeTransaction = transaction;
+            },
+            transaction: function(storeNames: string | string[], mode: IDBTransactionMode = 'readonly') {
+                if (connection.closed || upgradeTransaction) {
+                    throw new DOMException('The database connection is closing or upgrading.', 'InvalidStateError');
+                }
+                const names = Array.isArray(storeNames) ? storeNames : [storeNames];
+                names.forEach(
+                    (name) => {
+                        if (!data.stores.has(name)) {
+                            throw new DOMException(`No objectStore named ${name}.`, 'NotFoundError');
+                        }
+                    }
+                );
+                return createTransaction(connection, data, names, mode);
+            },
+            createObjectStore: function(name: string, { keyPath = null, autoIncrement = false }: IDBObjectStoreParameters = { }) {
+                if (!upgradeTransaction) {
+                    throw new DOMException('Object stores can only be created during a version change.', 'InvalidStateError');
+                }
+                if (connection.objectStoreNames.contains(name)) {
+                    throw new DOMException(`Object store ${name} already exists.`, 'ConstraintError');
+                }
+                upgradeTransaction.addStore({
+                    name, keyPath: keyPath ?? null, autoIncrement, currentKey: 0, records: [], indexes: new Map()
+                });
+                return upgradeTransaction.objectStore(name);
+            },
+            deleteObjectStore: function(name: string): void {
+                if (!upgradeTransaction) {
+                    throw new DOMException('Object stores can only be deleted during a version change.', 'InvalidStateError');
+                }
+                upgradeTransaction.removeStore(name);
+            },
+            close: function(): void {
+                connection.closed = true;
+                data.connections.delete(connection);
+                data.waiting = data.waiting.filter((proceed) => !proceed());
+            },
+        };
+        data.connections.add(connection);
+        return connection;
+    };
+
+    const requestVersionChange = function(data: MemoryDatabaseData, newVersion: number | null, request: any, proceed: () => void): void {
+        data.connections.forEach(
+            (connection) => connection.onversionchange?.(createEvent('versionchange', connection, {
+                oldVersion: data.version, newVersion
+            }))
+        );
+        const tryProceed = (): boolean => {
+            if (data.connections.size > 0 || data.transactions.length > 0) {
+                return false;
+            }
+            proceed();
+            return true;
+        };
+        if (!tryProceed()) {
+            request.onblocked?.(createEvent('blocked', request, { oldVersion: data.version, newVersion }));
+            data.waiting.push(tryProceed);
+        }
+    };
+
+    const fail = function(request: any, error: DOMException): void {
+        request.readyState = 'done';
+        request.error = error;
+        request.onerror?.(createEvent('error', request));
+    };
+
+    const succeed = function(request: any, result: unknown): void {
+        request.readyState = 'done';
+        request.result = result;
+        request.onsuccess?.(createEvent('success', request));
+    };
+
+    return {
+        open: function(name: string, version?: number) {
+            if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+                throw new TypeError('The version must be a positive integer.');
+            }
+            const request = {
+                ...createRequest(null, null),
+                onupgradeneeded: null as ((event: any) => void) | null,
+                onblocked: null as ((event: any) => void) | null,
+            };
+            setTimeout(() => {
+                const data = databases.get(name) ?? {
+                    name, version: 0, stores: new Map(), connections: new Set(), waiting: [], transactions: []
+                };
+                const targetVersion = version ?? Math.max(data.version, 1);
+                if (targetVersion < data.version) {
+                    fail(request, new DOMException('The requested version is less than the existing version.', 'VersionError'));
+                    return;
+                }
+                if (targetVersion === data.version) {
+                    succeed(request, createConnection(data));
+                    return;
+                }
+                requestVersionChange(data, targetVersion, request, () => {
+                    const oldVersion = data.version;
+                    databases.set(name, data);
+                    const connection = createConnection(data);
+                    connection.version = targetVersion;
+                    const transaction = createTransaction(connection, data, [], 'versionchange', {
+                        complete: () => {
+                            data.version = targetVersion;
+                            connection.setUpgradeTransaction(null);
+                            request.transaction = null;
+                            succeed(request, connection);
+                        },
+                        abort: () => {
+                            connection.setUpgradeTransaction(null);
+                            connection.close();
+                            if (oldVersion === 0) {
+                                databases.delete(name);
+                            }
+                            request.transaction = null;
+                            fail(request, new DOMException('The version change transaction was aborted.', 'AbortError'));
+                        },
+                    });
+                    connection.setUpgradeTransaction(transaction);
+                    request.result = connection;
+                    request.transaction = transaction;
+                    try {
+                        request.onupgradeneeded?.(createEvent('upgradeneeded', request, { oldVersion, newVersion: targetVersion }));
+                    }
+                    catch (_error) {
+                        transaction.abort();
+                    }
+                });
+            }, 0);
+            return request;
+        },
+        deleteDatabase: function(name: string) {
+            const request = createRequest(null, null);
+            setTimeout(() => {
+                const data = databases.get(name);
+                if (!data) {
+                    succeed(request, undefined);
+                    return;
+                }
+                requestVersionChange(data, null, request, () => {
+                    databases.delete(name);
+                    succeed(request, undefined);
+                });
+            }, 0);
+            return request;
+        },
+        cmp: compareKeys,
+        databases: () => Promise.resolve(
+            [...databases.values()].map(({ name, version }) => ({ name, version }))
+        ),
+    } as unknown as IDBFactory;
+};
@@ -0,0 +1,181 @@
+/**
+ * JSON-nal nem reprezentálható típusok szerializálása (Date, Map, Set, BigInt, RegExp, undefined, typed array-ek)
+ */
+
+export interface Serializer {
+    stringify: (value: unknown) => string;
+    parse: (text: string) => unknown;
+}
+
+export interface Codec<T = any> {
+    /** egyedi azonosító (a szerializált formában $type-ként jelenik meg) */
+    tag: string;
+    /** ez a codec kezeli-e az értéket */
+    test: (value: unknown) => boolean;
+    /** érték átalakítása (az eredmény tartalmazhat további kódolandó értékeket) */
+    encode: (value: T) => unknown;
+    /** visszaalakítás */
+    decode: (data: any) => T;
+}
+
+type TypedArray =
+    Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array | Int32Array | Uint32Array |
+    Float32Array | Float64Array | BigInt64Array | BigUint64Array;
+
+const typedArrays: Record<string, new (values: any[]) => TypedArray> = {
+    Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+    Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+};
+
+/**
+ * Beépített codec-ek
+ */
+const builtInCodecs: Codec[] = [
+    {
+        tag: 'undefined',
+        test: (value) => value === undefined,
+        encode: () => null,
+        decode: () => undefined,
+    },
+    {
+        tag: 'number',
+        test: (value) => typeof value === 'number' && !Number.isFinite(value),
+        encode: (value: number) => String(value),
+        decode: (data: string) => Number(data),
+    },
+    {
+        tag: 'BigInt',
+        test: (value) => typeof value === 'bigint',
+        encode: (value: bigint) => value.toString(),
+        decode: (data: string) => BigInt(data),
+    },
+    {
+        tag: 'Date',
+        test: (value) => value instanceof Date,
+        encode: (value: Date) => value.getTime(),
+        decode: (data: number) => new Date(data),
+    },
+    {
+        tag: 'RegExp',
+        test: (value) => value instanceof RegExp,
+        encode: (value: RegExp) => ({ source: value.source, flags: value.flags }),
+        decode: (data: { source: string, flags: string }) => new RegExp(data.source, data.flags),
+    },
+    {
+        tag: 'Map',
+        test: (value) => value instanceof Map,
+        encode: (value: Map<unknown, unknown>) => [...value.entries()],
+        decode: (data: [unknown, unknown][]) => new Map(data),
+    },
+    {
+        tag: 'Set',
+        test: (value) => value instanceof Set,
+        encode: (value: Set<unknown>) => [...value.values()],
+        decode: (data: unknown[]) => new Set(data),
+    },
+    ...Object.entries(typedArrays).map(
+        ([name, Constructor]): Codec<TypedArray> => ({
+            tag: name,
+            test: (value) => value instanceof Constructor,
+            encode: (value: TypedArray) => Array.from(
+                value as ArrayLike<number | bigint>, (item) => typeof item === 'bigint' ? item.toString() : item
+            ),
+            decode: (data: (number | string)[]) => new Constructor(
+                name.startsWith('Big') ? data.map((item) => BigInt(item)) : data
+            ),
+        })
+    ),
+];
+
+/**
+ * Szerializáló létrehozása beépített és egyedi codec-ekkel
+ * @param codecs - egyedi codec-ek (a beépítettek előtt kerülnek sorra)
+ * @return {Serializer} register metódussal bővíthető szerializáló
+ * @example
+ *  const serializer = createRichSerializer();
+ *  serializer.register({
+ *      tag: 'Point',
+ *      test: (value) => value instanceof Point,
+ *      encode: (point: Point) => ({ x: point.x, y: point.y }),
+ *      decode: (data) => new Point(data.x, data.y),
+ *  });
+ *  serializer.parse(serializer.stringify({ at: new Date(), ids: new Set([1, 2]) }));
+ */
+export const createRichSerializer = function(codecs: Codec[] = []) {
+    const customCodecs: Codec[] = [...codecs];
+
+    const findCodec = (value: unknown): Codec | undefined => (
+        customCodecs.find((codec) => codec.test(value)) ?? builtInCodecs.find((codec) => codec.test(value))
+    );
+
+    const findByTag = (tag: string): Codec | undefined => (
+        customCodecs.find((codec) => codec.tag === tag) ?? builtInCodecs.find((codec) => codec.tag === tag)
+    );
+
+    const encode = (value: unknown): unknown => {
+        const codec = findCodec(value);
+        if (codec) {
+            return { $type: codec.tag, $data: encode(codec.encode(value)) };
+        }
+        if (Array.isArray(value)) {
+            return value.map(encode);
+        }
+        if (value && typeof value === 'object') {
+            const encoded = Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, encode(item)])
+            );
+            // a $type kulcsú sima objektumot is be kell csomagolni, különben codec-nek látszana
+            return '$type' in encoded ? { $type: 'Object', $data: encoded } : encoded;
+        }
+        return value;
+    };
+
+    const decode = (value: unknown): unknown => {
+        if (Array.isArray(value)) {
+            return value.map(decode);
+        }
+        if (value && typeof value === 'object') {
+            const { $type, $data } = value as { $type?: unknown, $data?: unknown };
+            if (typeof $type === 'string' && Object.keys(value).length === 2 && '$data' in value) {
+                if ($type === 'Object') {
+                    return Object.fromEntries(
+                        Object.entries($data as object).map(([key, item]) => [key, decode(item)])
+                    );
+                }
+                const codec = findByTag($type);
+                if (!codec) {
+                    throw new Error(`Unknown serializer type: ${$type}`);
+                }
+                return codec.decode(decode($data));
+            }
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [key, decode(item)])
+            );
+        }
+        return value;
+    };
+
+    return {
+        stringify: function(value: unknown): string {
+            return JSON.stringify(encode(value));
+        },
+        parse: function(text: string): unknown {
+            return decode(JSON.parse(text));
+        },
+        /**
+         * Egyedi codec hozzáadása
+         * @param codec
+         */
+        register: function<T>(codec: Codec<T>): void {
+            customCodecs.unshift(codec);
+        },
+    };
+};
+
+/**
+ * Sima JSON szerializáló (alapértelmezett)
+ */
+export const jsonSerializer: Serializer = {
+    stringify: (value: unknown): string => JSON.stringify(value),
+    parse: (text: string): unknown => JSON.parse(text),
+};
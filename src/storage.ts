@@ -2,8 +2,89 @@
  * Adattárolás (LocalStorage, SessionStorage, IndexedDB)
  */
 
+import { isEqual, isPlainObject, merge, pick, uniq } from 'lodash';
+import { createRichSerializer, jsonSerializer, Serializer } from './serializer';
+import { createMemoryIndexedDB, createMemoryStorage, MemoryKeyRange } from './memory';
+import { decryptText, encryptText } from './crypto';
+import { compressionFormat, CompressionFormat, compressText, compressTextSync, decompressText, decompressTextSync } from './compression';
+import { FILE } from './utility';
+
 type Data<T> = Record<string, T>;
 
+type StorageType = 'local' | 'session';
+
+/** Változás forrása: saját dokumentum, storage event vagy BroadcastChannel üzenet */
+type ChangeSource = 'self' | 'storage' | 'broadcast';
+
+export interface StorageChange {
+    type: StorageType;
+    /** null, ha a másik tab a teljes storage-ot törölte */
+    key: string | null;
+    oldValue: unknown;
+    newValue: unknown;
+    source: ChangeSource;
+}
+
+export interface CacheChange {
+    type: StorageType;
+    pool: string;
+    key: string;
+    oldValue: unknown;
+    newValue: unknown;
+    source: ChangeSource;
+}
+
+export interface ExpiryOptions {
+    /** élettartam (ms), lejárat után olvasáskor törlődik */
+    ttl?: number;
+}
+
+/** Tárolók (a hiányzó böngészős API-k helyett memóriában tároló megfelelő) */
+export interface StorageBackend {
+    local?: Storage;
+    session?: Storage;
+    indexedDB?: IDBFactory;
+}
+
+export interface StorageSetOptions extends ExpiryOptions {
+    /** LZ tömörítés (csak akkor tárolja tömörítve, ha rövidebb lesz) */
+    compress?: boolean;
+}
+
+export interface AsyncStorageSetOptions extends ExpiryOptions {
+    /** tömörítés formátuma (gzip/deflate CompressionStream-mel, ennek hiányában LZ) */
+    compress?: CompressionFormat;
+}
+
+export interface CacheOptions extends StorageSetOptions {
+    /** betelt storage esetén a pool legrégebben használt elemeinek törlése, amíg az írás sikerül */
+    evict?: 'lru';
+}
+
+/** Web Storage foglaltsága byte-ban (UTF-16: karakterenként 2 byte) */
+export interface StorageUsage {
+    total: number;
+    /** kulcsonként (kulcs + érték) */
+    keys: Data<number>;
+    /** Cache pool-onként, elemenként (kulcs + szerializált érték) */
+    pools: Data<Data<number>>;
+}
+
+/** Lejárati idővel tárolt érték */
+interface Expiring {
+    $expires: number;
+    $value: unknown;
+}
+
+/** A Cache pool-ok nevét tároló kulcs */
+const CACHE_POOLS_KEY = '__cache_pools__';
+
+/** A localStorage változásait továbbító BroadcastChannel neve */
+const BROADCAST_CHANNEL_NAME = '@herbertusz/utility:storage';
+
+/** Ennyi időn (ms) belül érkező azonos storage event és broadcast üzenet egy változásnak számít */
+const CHANGE_DEDUP_WINDOW = 1000;
+
 export const JSONparse = function(data: string | null): unknown {
     try {
         return JSON.parse(data as string);
@@ -13,32 +94,486 @@ export const JSONparse = function(data: string | null): unknown {
     }
 };
 
-export const storage = {
+const isExpiring = function(value: unknown): value is Expiring {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Object.keys(value).length === 2 && '$expires' in value && '$value' in value;
+};
 
-    session: {
-        get: function(key: string): unknown {
-            return JSONparse(sessionStorage.getItem(key));
-        },
-        set: function(key: string, value: unknown): void {
-            sessionStorage.setItem(key, JSON.stringify(value));
-        },
+const isExpired = function(value: unknown): boolean {
+    return isExpiring(value) && value.$expires <= Date.now();
+};
+
+const wrapExpiring = function(value: unknown, ttl?: number): unknown {
+    return ttl ? { $expires: Date.now() + ttl, $value: value } : value;
+};
+
+const unwrapExpiring = function(value: unknown): unknown {
+    return isExpiring(value) ? value.$value : value;
+};
+
+/** storage-ba írt értékek szerializálója */
+let serializer: Serializer = jsonSerializer;
+
+/**
+ * Szerializáló cseréje (pl. Date, Map, Set megőrzéséhez: setSerializer(createRichSerializer()))
+ * @param newSerializer
+ */
+export const setSerializer = function(newSerializer: Serializer): void {
+    serializer = newSerializer;
+};
+
+/**
+ * Tárolt érték értelmezése az aktuális szerializálóval (hibás érték esetén üres objektum, mint a JSONparse)
+ * @param data
+ * @return
+ */
+const parseValue = function(data: string | null): unknown {
+    if (data === null) {
+        return null;
+    }
+    try {
+        return serializer.parse(decompressTextSync(data));
+    }
+    catch (_error) {
+        return { };
+    }
+};
+
+/** Beállított tárolók */
+const backend: StorageBackend = { };
+
+/** A böngészős API-k hiányában használt memóriás tárolók */
+const fallbackBackend: StorageBackend = { };
+
+/**
+ * Böngészős global elérése (hiányzik Node/SSR alatt, letiltott cookie-k esetén olvasáskor kivételt dob)
+ * @param getter
+ * @return
+ */
+const browserApi = function<T>(getter: () => T): T | undefined {
+    try {
+        return getter() ?? undefined;
+    }
+    catch (_error) {
+        return undefined;
+    }
+};
+
+/**
+ * Tárolók cseréje (pl. tesztekhez vagy Node alatt); a megadott kulcsok felülírják az aktuálisakat
+ * @param newBackend - local, session, indexedDB (undefined esetén újra automatikus)
+ * @example
+ *  setStorageBackend({ local: createMemoryStorage(), indexedDB: createMemoryIndexedDB() });
+ */
+export const setStorageBackend = function(newBackend: StorageBackend): void {
+    if ('indexedDB' in newBackend) {
+        connections.clear();
+    }
+    Object.assign(backend, newBackend);
+};
+
+/**
+ * Betelt a storage (QuotaExceededError)
+ * @property type - storage típusa
+ * @property key - az írt kulcs
+ * @property bytes - az írni kívánt kulcs és érték mérete (byte)
+ */
+export class StorageQuotaError extends Error {
+    public readonly type: StorageType;
+    public readonly key: string;
+    public readonly bytes: number;
+
+    constructor(type: StorageType, key: string, bytes: number, cause?: unknown) {
+        super(`Storage quota exceeded (${type}, ${key}: ${bytes} bytes)`, { cause });
+        this.name = 'StorageQuotaError';
+        this.type = type;
+        this.key = key;
+        this.bytes = bytes;
+    }
+}
+
+/**
+ * Kulcs és érték mérete byte-ban (a Web Storage UTF-16-ban tárol)
+ * @param key
+ * @param value
+ * @return
+ */
+const byteSize = function(key: string, value: string): number {
+    return (key.length + value.length) * 2;
+};
+
+/**
+ * Kvóta túllépés (a böngészők eltérő néven/kóddal jelzik)
+ * @param error
+ * @return
+ */
+const isQuotaError = function(error: unknown): boolean {
+    const { name, code } = (error ?? { }) as { name?: string, code?: number };
+    return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+};
+
+const webStorage = function(type: StorageType): Storage {
+    return backend[type]
+        ?? browserApi(() => (type === 'local' ? localStorage : sessionStorage))
+        ?? (fallbackBackend[type] ??= createMemoryStorage());
+};
+
+const idbFactory = function(): IDBFactory {
+    return backend.indexedDB
+        ?? browserApi(() => indexedDB)
+        ?? (fallbackBackend.indexedDB ??= createMemoryIndexedDB());
+};
+
+const keyRange = function(): typeof IDBKeyRange {
+    return browserApi(() => IDBKeyRange) ?? (MemoryKeyRange as unknown as typeof IDBKeyRange);
+};
+
+/**
+ * Feliratkozások és a változások szétküldése
+ */
+const changes = {
+
+    listeners: {
+        local: new Set<(change: StorageChange) => void>(),
+        session: new Set<(change: StorageChange) => void>(),
     },
 
-    local: {
+    /**
+     * másik tab-ból érkezett, még párja nélküli változások (típus, kulcs, régi és új nyers érték) és érkezésük ideje
+     * (ugyanaz a változás storage event-ként és broadcast-ként is megérkezhet, a második kiszűrendő;
+     * ha a küldőnek nincs nyitott csatornája, csak storage event jön, ezért a bejegyzések lejárnak)
+     */
+    lastSeen: new Map<string, number>(),
+
+    /** csak feliratkozók esetén nyitott csatorna (a nyitott csatorna Node-ban életben tartja a process-t) */
+    channel: null as BroadcastChannel | null,
+
+    listening: false,
+
+    notify: function(type: StorageType, key: string | null, oldRaw: string | null, newRaw: string | null, source: ChangeSource): void {
+        if (changes.listeners[type].size === 0) {
+            return;
+        }
+        if (key !== null && source !== 'self') {
+            const now = Date.now();
+            changes.lastSeen.forEach(
+                (seenAt, seenKey) => {
+                    if (now - seenAt > CHANGE_DEDUP_WINDOW) {
+                        changes.lastSeen.delete(seenKey);
+                    }
+                }
+            );
+            const seenKey = JSON.stringify([type, key, oldRaw, newRaw]);
+            if (changes.lastSeen.has(seenKey)) {
+                changes.lastSeen.delete(seenKey);
+                return;
+            }
+            changes.lastSeen.set(seenKey, now);
+        }
+        const deliver = function(oldText: string | null, newText: string | null): void {
+            const change: StorageChange = {
+                type, key, oldValue: unwrapExpiring(parseValue(oldText)), newValue: unwrapExpiring(parseValue(newText)), source
+            };
+            changes.listeners[type].forEach(
+                (listener) => listener(change)
+            );
+        };
+        const isAsyncCompressed = function(raw: string | null): boolean {
+            const format = raw === null ? null : compressionFormat(raw);
+            return format !== null && format !== 'lz';
+        };
+        if (!isAsyncCompressed(oldRaw) && !isAsyncCompressed(newRaw)) {
+            deliver(oldRaw, newRaw);
+            return;
+        }
+        // gzip/deflate csak async bontható ki, ekkor az értesítés is async
+        Promise.all(
+            [oldRaw, newRaw].map(
+                (raw) => (raw === null ? Promise.resolve(null) : decompressText(raw).catch(() => raw))
+            )
+        ).then(
+            ([oldText, newText]) => deliver(oldText, newText)
+        );
+    },
+
+    /**
+     * saját írás továbbítása a többi tab felé (csak localStorage, a sessionStorage tab-onként külön van;
+     * csak nyitott csatornán, azaz ha ebben a tab-ban van feliratkozó, a többi tab-ot a storage event is értesíti)
+     */
+    broadcast: function(type: StorageType, key: string, oldRaw: string | null, newRaw: string | null): void {
+        if (type === 'local' && changes.channel) {
+            changes.channel.postMessage({ key, oldRaw, newRaw });
+        }
+    },
+
+    onStorage: function(event: StorageEvent): void {
+        if (event.storageArea === webStorage('local')) {
+            changes.notify('local', event.key, event.oldValue, event.newValue, 'storage');
+        }
+        else if (event.storageArea === webStorage('session')) {
+            changes.notify('session', event.key, event.oldValue, event.newValue, 'storage');
+        }
+    },
+
+    onMessage: function(event: MessageEvent): void {
+        const { key, oldRaw, newRaw } = event.data;
+        changes.notify('local', key, oldRaw, newRaw, 'broadcast');
+    },
+
+    /** event listener-ek felcsatolása/leválasztása a feliratkozók számától függően */
+    update: function(): void {
+        const needed = changes.listeners.local.size + changes.listeners.session.size > 0;
+        if (typeof window === 'undefined') {
+            return;
+        }
+        if (needed && !changes.listening) {
+            window.addEventListener('storage', changes.onStorage);
+            if (typeof BroadcastChannel !== 'undefined') {
+                changes.channel = new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+                changes.channel.addEventListener('message', changes.onMessage);
+            }
+        }
+        else if (!needed && changes.listening) {
+            window.removeEventListener('storage', changes.onStorage);
+            changes.channel?.close();
+            changes.channel = null;
+            changes.lastSeen.clear();
+        }
+        changes.listening = needed;
+    },
+
+};
+
+/**
+ * Web Storage kezelő létrehozása
+ * @param type
+ * @return
+ */
+const createStorageHandler = function(type: StorageType) {
+    const write = function(key: string, newRaw: string): void {
+        const oldRaw = webStorage(type).getItem(key);
+        try {
+            webStorage(type).setItem(key, newRaw);
+        }
+        catch (error) {
+            throw isQuotaError(error) ? new StorageQuotaError(type, key, byteSize(key, newRaw), error) : error;
+        }
+        changes.notify(type, key, oldRaw, newRaw, 'self');
+        changes.broadcast(type, key, oldRaw, newRaw);
+    };
+
+    const resolveValue = function(key: string, value: unknown): unknown {
+        if (isExpired(value)) {
+            handler.remove(key);
+            return null;
+        }
+        return unwrapExpiring(value);
+    };
+
+    const handler = {
+        /**
+         * Érték kiolvasása (lejárt érték esetén törli és null-t ad)
+         * @param key
+         * @return
+         * @throws {Error} gzip/deflate tömörítésű értéknél (azt a getAsync olvassa)
+         */
         get: function(key: string): unknown {
-            return JSONparse(localStorage.getItem(key));
+            const raw = webStorage(type).getItem(key);
+            const format = raw === null ? null : compressionFormat(raw);
+            if (format && format !== 'lz') {
+                throw new Error(`Storage value ${key} is ${format} compressed, use getAsync`);
+            }
+            return resolveValue(key, parseValue(raw));
+        },
+        /**
+         * Érték beírása
+         * @param key
+         * @param value
+         * @param options - ttl: élettartam (ms), compress: LZ tömörítés
+         * @throws {StorageQuotaError} ha betelt a storage
+         */
+        set: function(key: string, value: unknown, { ttl, compress }: StorageSetOptions = { }): void {
+            const raw = serializer.stringify(wrapExpiring(value, ttl));
+            const compressed = compress ? compressTextSync(raw) : raw;
+            write(key, compressed.length < raw.length ? compressed : raw);
         },
-        set: function(key: string, value: unknown): void {
-            localStorage.setItem(key, JSON.stringify(value));
+        /**
+         * Érték kiolvasása bármilyen tömörítés esetén
+         * @param key
+         * @return {Promise}
+         */
+        getAsync: function(key: string): Promise<unknown> {
+            const raw = webStorage(type).getItem(key);
+            return (raw === null ? Promise.resolve(null) : decompressText(raw)).then(
+                (text: string | null) => resolveValue(key, parseValue(text))
+            );
         },
+        /**
+         * Érték beírása gzip/deflate tömörítéssel (csak akkor tárolja tömörítve, ha rövidebb lesz)
+         * @param key
+         * @param value
+         * @param options - ttl: élettartam (ms), compress: tömörítés formátuma
+         * @return {Promise}
+         * @throws {StorageQuotaError} ha betelt a storage
+         * @example
+         *  await storage.local.setAsync('report', hugeReport, { compress: 'gzip' });
+         *  const report = await storage.local.getAsync('report');
+         */
+        setAsync: function(key: string, value: unknown, { ttl, compress }: AsyncStorageSetOptions = { }): Promise<void> {
+            const raw = serializer.stringify(wrapExpiring(value, ttl));
+            return (compress ? compressText(raw, compress) : Promise.resolve(raw)).then(
+                (compressed: string) => write(key, compressed.length < raw.length ? compressed : raw)
+            );
+        },
+        remove: function(key: string): void {
+            const oldRaw = webStorage(type).getItem(key);
+            webStorage(type).removeItem(key);
+            changes.notify(type, key, oldRaw, null, 'self');
+            changes.broadcast(type, key, oldRaw, null);
+        },
+        /**
+         * Lejárati időpont (timestamp), ha az érték ttl-lel lett beírva
+         * @param key
+         * @return
+         */
+        expiry: function(key: string): number | null {
+            const value = parseValue(webStorage(type).getItem(key));
+            return isExpiring(value) ? value.$expires : null;
+        },
+        /**
+         * Feliratkozás a storage változásaira (saját írás, másik tab írása)
+         * @param listener
+         * @return leiratkozó függvény
+         */
+        subscribe: function(listener: (change: StorageChange) => void): () => void {
+            changes.listeners[type].add(listener);
+            changes.update();
+            return () => {
+                changes.listeners[type].delete(listener);
+                changes.update();
+            };
+        },
+    };
+    return handler;
+};
+
+export const storage = {
+
+    session: createStorageHandler('session'),
+
+    local: createStorageHandler('local'),
+
+};
+
+/**
+ * Pool nyers tartalmának kiolvasása (lejárati adatokkal együtt; ha nem objektum, üres objektumot ad)
+ * @param type
+ * @param pool
+ * @return
+ */
+const readRawPool = function(type: StorageType, pool: string): Data<unknown> {
+    const currentPool = storage[type].get(pool);
+    return currentPool && typeof currentPool === 'object' ? currentPool as Data<unknown> : { };
+};
+
+/**
+ * Pool tartalmának kiolvasása (a lejárt elemeket törli)
+ * @param type
+ * @param pool
+ * @return
+ */
+const readPool = function(type: StorageType, pool: string): Data<unknown> {
+    const rawPool = readRawPool(type, pool);
+    const expiredKeys = Object.keys(rawPool).filter((key) => isExpired(rawPool[key]));
+    if (expiredKeys.length > 0) {
+        expiredKeys.forEach((key) => delete rawPool[key]);
+        writePool(type, pool, rawPool);
     }
+    return Object.fromEntries(
+        Object.entries(rawPool).map(([key, value]) => [key, unwrapExpiring(value)])
+    );
+};
 
+/**
+ * Pool elemeinek utolsó használata az LRU kiürítéshez (csak memóriában; a nem követett elemek
+ * - pl. újratöltés után - a pool-beli sorrendjükben számítanak a legrégebbinek)
+ */
+const recency = {
+
+    counter: 0,
+
+    pools: new Map<string, Map<string, number>>(),
+
+    touch: function(type: StorageType, pool: string, key: string): void {
+        const poolKey = `${type}:${pool}`;
+        if (!recency.pools.has(poolKey)) {
+            recency.pools.set(poolKey, new Map());
+        }
+        recency.pools.get(poolKey)?.set(key, ++recency.counter);
+    },
+
+    forget: function(type: StorageType, pool: string, key: string): void {
+        recency.pools.get(`${type}:${pool}`)?.delete(key);
+    },
+
+    /** legrégebben használt elem (a keep-ben szereplők kivételével) */
+    leastRecent: function(type: StorageType, pool: string, data: Data<unknown>, keep: string[]): string | undefined {
+        const used = recency.pools.get(`${type}:${pool}`);
+        return Object.keys(data)
+            .filter((key) => !keep.includes(key))
+            .sort((a, b) => (used?.get(a) ?? 0) - (used?.get(b) ?? 0))[0];
+    },
+
+};
+
+/**
+ * Pool tartalmának felülírása
+ * @param type
+ * @param pool
+ * @param data
+ * @param options - evict: kiürítési stratégia betelt storage esetén, compress: LZ tömörítés, keep: nem törölhető elemek (az éppen írtak)
+ * @throws {StorageQuotaError} ha betelt a storage (és nincs több törölhető elem)
+ */
+const writePool = function(
+    type: StorageType, pool: string, data: Data<unknown>,
+    { evict, compress, keep = [] }: Pick<CacheOptions, 'evict' | 'compress'> & { keep?: string[] } = { }
+): void {
+    // tömörítés megadása nélkül a pool megtartja a jelenlegi formátumát
+    const raw = webStorage(type).getItem(pool);
+    const compressed = compress ?? (raw !== null && compressionFormat(raw) === 'lz');
+    try {
+        storage[type].set(pool, data, { compress: compressed });
+    }
+    catch(error) {
+        if (!(error instanceof StorageQuotaError)) {
+            throw new Error(`Cache.set error: ${JSON.stringify(error)}`);
+        }
+        const victim = evict === 'lru' ? recency.leastRecent(type, pool, data, keep) : undefined;
+        if (victim === undefined) {
+            throw error;
+        }
+        const { [victim]: _evicted, ...rest } = data;
+        recency.forget(type, pool, victim);
+        writePool(type, pool, rest, { evict, compress: compressed, keep });
+    }
+};
+
+/**
+ * Regisztrált pool-nevek
+ * @param type
+ * @return
+ */
+const readPoolNames = function(type: StorageType): string[] {
+    const names = storage[type].get(CACHE_POOLS_KEY);
+    return Array.isArray(names) ? names : [];
 };
 
 /**
  * Proxy-val megírt storage kezelő (könnyebb módosíthatóság)
  * @param type
  * @param pool
+ * @param options - ttl: a pool-ba írt elemek alapértelmezett élettartama (ms), evict: 'lru' kiürítés betelt storage esetén,
+ *                  compress: LZ tömörítés
  * @return
  * @example
  *  const form = Cache('session', 'longform');
@@ -46,66 +581,761 @@ export const storage = {
  *  const name = form.name;
  *  // write
  *  form.name = 'John';
+ *  // check, delete
+ *  if ('name' in form) {
+ *      delete form.name;
+ *  }
+ *  // pool-level operations
+ *  Cache.assign('session', 'longform', { name: 'John', age: 30 });
+ *  const data = Cache.snapshot('session', 'longform');
+ *  Cache.clear('session', 'longform');
+ * @example
+ *  // az elemek 1 óra után lejárnak
+ *  const apiCache = Cache('local', 'api', { ttl: 60 * 60 * 1000 });
+ *  apiCache.teams = teams;
+ *  Cache.expiry('local', 'api', 'teams'); // => lejárat időpontja
+ * @example
+ *  // betelt storage esetén a legrégebben használt elemek törlődnek (egyébként StorageQuotaError)
+ *  const thumbnails = Cache('local', 'thumbnails', { evict: 'lru' });
  */
 export const Cache = function(
-    type: 'local' | 'session', pool: string
+    type: StorageType, pool: string, { ttl, evict, compress }: CacheOptions = { }
 ): Data<unknown> {
     const target = { };
     if (!storage[type].get(pool)) {
         storage[type].set(pool, { });
     }
+    if (!readPoolNames(type).includes(pool)) {
+        storage[type].set(CACHE_POOLS_KEY, [...readPoolNames(type), pool]);
+    }
     return new Proxy(target, {
         get(_target, prop: string): Data<unknown> {
-            const currentPool = storage[type].get(pool);
-            return currentPool?.[prop as keyof typeof currentPool] as unknown as Data<unknown>;
+            const currentPool = readPool(type, pool);
+            if (evict && Object.prototype.hasOwnProperty.call(currentPool, prop)) {
+                recency.touch(type, pool, prop);
+            }
+            return currentPool[prop] as Data<unknown>;
         },
         set(_target, prop: string, value: unknown): boolean {
-            try {
-                storage[type].set(pool, {
-                    ...storage[type].get(pool) as Data<unknown>,
-                    [prop]: value,
-                });
+            writePool(type, pool, {
+                ...readRawPool(type, pool),
+                [prop]: wrapExpiring(value, ttl),
+            }, { evict, compress, keep: [prop] });
+            if (evict) {
+                recency.touch(type, pool, prop);
             }
-            catch(error) {
-                throw new Error(`Cache.set error: ${JSON.stringify(error)}`);
+            return true;
+        },
+        has(_target, prop: string): boolean {
+            return Object.prototype.hasOwnProperty.call(readPool(type, pool), prop);
+        },
+        deleteProperty(_target, prop: string): boolean {
+            const currentPool = readRawPool(type, pool);
+            if (Object.prototype.hasOwnProperty.call(currentPool, prop)) {
+                delete currentPool[prop];
+                writePool(type, pool, currentPool, { compress });
+            }
+            return true;
+        },
+        defineProperty(_target, prop: string, descriptor: PropertyDescriptor): boolean {
+            // storage-ban csak adat property tárolható (getter/setter nem)
+            if (descriptor.get || descriptor.set) {
+                return false;
+            }
+            writePool(type, pool, {
+                ...readRawPool(type, pool),
+                [prop]: wrapExpiring(descriptor.value, ttl),
+            }, { evict, compress, keep: [prop] });
+            if (evict) {
+                recency.touch(type, pool, prop);
             }
             return true;
         },
         ownKeys(_target): (string | symbol)[] {
-            return [...Reflect.ownKeys(storage[type].get(pool) as Data<unknown>)];
+            return [...Reflect.ownKeys(readPool(type, pool))];
         },
-        getOwnPropertyDescriptor(_target, prop: string): PropertyDescriptor {
-            const currentPool = storage[type].get(pool);
+        getOwnPropertyDescriptor(_target, prop: string): PropertyDescriptor | undefined {
+            const currentPool = readPool(type, pool);
+            if (!Object.prototype.hasOwnProperty.call(currentPool, prop)) {
+                return undefined;
+            }
             return {
-                value: currentPool?.[prop as keyof typeof currentPool],
+                value: currentPool[prop],
+                writable: true,
                 enumerable: true,
                 configurable: true,
             };
         }
-        // TODO: has, deleteProperty, defineProperty trap megvalósátása
     });
 };
 
+/**
+ * Pool összes elemének törlése
+ * @param type
+ * @param pool
+ */
+Cache.clear = function(type: StorageType, pool: string): void {
+    writePool(type, pool, { });
+};
+
+/**
+ * Pool teljes eltávolítása (a pool-nevek közül is)
+ * @param type
+ * @param pool
+ */
+Cache.remove = function(type: StorageType, pool: string): void {
+    storage[type].remove(pool);
+    storage[type].set(CACHE_POOLS_KEY, readPoolNames(type).filter((name) => name !== pool));
+};
+
+/**
+ * Létrehozott pool-ok nevei
+ * @param type
+ * @return
+ */
+Cache.pools = function(type: StorageType): string[] {
+    return readPoolNames(type).filter(
+        (name) => storage[type].get(name) !== null
+    );
+};
+
+/**
+ * Pool tartalma sima objektumként (másolat, a módosítása nem íródik vissza)
+ * @param type
+ * @param pool
+ * @return
+ */
+Cache.snapshot = function(type: StorageType, pool: string): Data<unknown> {
+    return { ...readPool(type, pool) };
+};
+
+/**
+ * Több elem beírása a pool-ba egyetlen írással
+ * @param type
+ * @param pool
+ * @param values
+ * @param options - ttl: a beírt elemek élettartama (ms), evict: 'lru' kiürítés betelt storage esetén, compress: LZ tömörítés
+ */
+Cache.assign = function(
+    type: StorageType, pool: string, values: Data<unknown>, { ttl, evict, compress }: CacheOptions = { }
+): void {
+    writePool(type, pool, {
+        ...readRawPool(type, pool),
+        ...Object.fromEntries(
+            Object.entries(values).map(([key, value]) => [key, wrapExpiring(value, ttl)])
+        ),
+    }, { evict, compress, keep: Object.keys(values) });
+    if (evict) {
+        Object.keys(values).forEach((key) => recency.touch(type, pool, key));
+    }
+};
+
+/**
+ * Pool egy elemének lejárati időpontja (timestamp), ha ttl-lel lett beírva
+ * @param type
+ * @param pool
+ * @param key
+ * @return
+ */
+Cache.expiry = function(type: StorageType, pool: string, key: string): number | null {
+    const value = readRawPool(type, pool)[key];
+    return isExpiring(value) ? value.$expires : null;
+};
+
+/**
+ * Lejárt elemek törlése a pool-ból (pool nélkül az összes pool-ból)
+ * @param type
+ * @param pool
+ * @return törölt elemek száma
+ */
+Cache.sweep = function(type: StorageType, pool?: string): number {
+    return (pool ? [pool] : Cache.pools(type)).reduce(
+        (acc: number, current: string) => {
+            const before = Object.keys(readRawPool(type, current)).length;
+            return acc + before - Object.keys(readPool(type, current)).length;
+        },
+        0
+    );
+};
+
+/**
+ * Feliratkozás egy pool változásaira (property-nként egy értesítés, másik tab-ban történt írásra is)
+ * @param type
+ * @param pool
+ * @param listener
+ * @return leiratkozó függvény
+ * @example
+ *  const unsubscribe = Cache.subscribe('local', 'longform', ({ key, oldValue, newValue, source }) => {
+ *      if (source !== 'self') {
+ *          console.warn(`${key} changed in another tab`, oldValue, newValue);
+ *      }
+ *  });
+ */
+Cache.subscribe = function(type: StorageType, pool: string, listener: (change: CacheChange) => void): () => void {
+    return storage[type].subscribe(
+        ({ key, oldValue, newValue, source }) => {
+            if (key !== pool) {
+                return;
+            }
+            const oldPool = (oldValue && typeof oldValue === 'object' ? oldValue : { }) as Data<unknown>;
+            const newPool = (newValue && typeof newValue === 'object' ? newValue : { }) as Data<unknown>;
+            new Set([...Object.keys(oldPool), ...Object.keys(newPool)]).forEach(
+                (prop: string) => {
+                    const oldProp = unwrapExpiring(oldPool[prop]);
+                    const newProp = unwrapExpiring(newPool[prop]);
+                    if (!isEqual(oldProp, newProp)) {
+                        listener({ type, pool, key: prop, oldValue: oldProp, newValue: newProp, source });
+                    }
+                }
+            );
+        }
+    );
+};
+
+/**
+ * Web Storage foglaltsága kulcsonként és Cache pool-onként
+ * @param type
+ * @return {StorageUsage}
+ * @example
+ *  const { total, pools } = storageUsage('local');
+ *  console.log(total, pools.api); // => 4096 { teams: 2048, players: 1024 }
+ */
+export const storageUsage = function(type: StorageType): StorageUsage {
+    const area = webStorage(type);
+    const keys: Data<number> = { };
+    for (let i = 0; i < area.length; i++) {
+        const key = area.key(i) as string;
+        keys[key] = byteSize(key, area.getItem(key) ?? '');
+    }
+    const pools = Object.fromEntries(
+        Cache.pools(type).map((pool) => [
+            pool,
+            Object.fromEntries(
+                Object.entries(readRawPool(type, pool)).map(([key, value]) => [key, byteSize(key, serializer.stringify(value))])
+            ),
+        ])
+    );
+    return {
+        total: Object.values(keys).reduce((acc, bytes) => acc + bytes, 0),
+        keys,
+        pools,
+    };
+};
+
+/**
+ * Verziózott pool olvasási/írási hibája
+ * @property key - storage kulcs
+ * @property reason - parse: nem értelmezhető érték, version: hiányzó migráció vagy újabb verzió, validation: érvénytelen adat
+ * @property data - a hibát okozó adat
+ */
+export class StorageSchemaError extends Error {
+    public readonly key: string;
+    public readonly reason: 'parse' | 'version' | 'validation';
+    public readonly data: unknown;
+
+    constructor(key: string, reason: 'parse' | 'version' | 'validation', message: string, data?: unknown) {
+        super(`Storage schema error (${key}): ${message}`);
+        this.name = 'StorageSchemaError';
+        this.key = key;
+        this.reason = reason;
+        this.data = data;
+    }
+}
+
+export interface VersionedPoolOptions<T> {
+    /** aktuális séma verzió (verzió nélkül tárolt adat 0-s verziónak számít) */
+    version: number;
+    /** type guard az aktuális verzióhoz */
+    validate: (data: unknown) => data is T;
+    /** migrációk: a kulcs az a verzió, amiről a függvény a következőre alakít */
+    migrations?: Record<number, (data: any) => unknown>;
+}
+
+/** Verzióval tárolt érték */
+interface Versioned {
+    $version: number;
+    $data: unknown;
+}
+
+const isVersioned = function(value: unknown): value is Versioned {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Object.keys(value).length === 2 && '$version' in value && '$data' in value;
+};
+
+/**
+ * Séma verzióval és validációval ellátott storage elem
+ * @param type
+ * @param key - storage kulcs
+ * @param options - version, validate, migrations
+ * @return typed get/set/remove
+ * @example
+ *  interface Form { name: string, tags: string[] }
+ *  const form = VersionedPool<Form>('local', 'longform', {
+ *      version: 2,
+ *      validate: (data): data is Form => typeof (data as Form)?.name === 'string' && Array.isArray((data as Form).tags),
+ *      migrations: {
+ *          0: (data) => ({ name: data.name }),          // verzió nélküli (régi) adat -> 1
+ *          1: (data) => ({ ...data, tags: [] }),        // 1 -> 2
+ *      }
+ *  });
+ *  const data = form.get(); // Form | null, a régi adatot migrálja és visszaírja
+ *  form.set({ name: 'John', tags: [] });
+ */
+export const VersionedPool = function<T>(
+    type: StorageType, key: string, { version, validate, migrations = { } }: VersionedPoolOptions<T>
+) {
+    const check = function(data: unknown): T {
+        if (!validate(data)) {
+            throw new StorageSchemaError(key, 'validation', `invalid data for version ${version}`, data);
+        }
+        return data;
+    };
+
+    return {
+        /**
+         * Kiolvasás (régebbi verzió esetén migrálás és visszaírás)
+         * @return adat vagy null, ha nincs tárolva
+         * @throws {StorageSchemaError}
+         */
+        get: function(): T | null {
+            const raw = webStorage(type).getItem(key);
+            if (raw === null) {
+                return null;
+            }
+            const format = compressionFormat(raw);
+            if (format && format !== 'lz') {
+                throw new StorageSchemaError(key, 'parse', `stored value is ${format} compressed, it cannot be read synchronously`, raw);
+            }
+            let stored: unknown;
+            try {
+                stored = serializer.parse(decompressTextSync(raw));
+            }
+            catch (_error) {
+                throw new StorageSchemaError(key, 'parse', 'stored value cannot be parsed', raw);
+            }
+            if (isExpired(stored)) {
+                storage[type].remove(key);
+                return null;
+            }
+            const expires = isExpiring(stored) ? stored.$expires : null;
+            const value = unwrapExpiring(stored);
+            let currentVersion = isVersioned(value) ? value.$version : 0;
+            let data = isVersioned(value) ? value.$data : value;
+            if (currentVersion > version) {
+                throw new StorageSchemaError(key, 'version', `stored version ${currentVersion} is newer than ${version}`, data);
+            }
+            const migrated = currentVersion < version;
+            while (currentVersion < version) {
+                const migration = migrations[currentVersion];
+                if (!migration) {
+                    throw new StorageSchemaError(key, 'version', `missing migration from version ${currentVersion}`, data);
+                }
+                data = migration(data);
+                currentVersion++;
+            }
+            const result = check(data);
+            if (migrated) {
+                storage[type].set(
+                    key,
+                    { $version: version, $data: result },
+                    { ttl: expires ? expires - Date.now() : undefined, compress: format === 'lz' }
+                );
+            }
+            return result;
+        },
+        /**
+         * Beírás (az aktuális verzióval)
+         * @param value
+         * @param options - ttl: élettartam (ms)
+         * @throws {StorageSchemaError}
+         */
+        set: function(value: T, options: ExpiryOptions = { }): void {
+            storage[type].set(key, { $version: version, $data: check(value) }, options);
+        },
+        remove: function(): void {
+            storage[type].remove(key);
+        },
+    };
+};
+
+export interface EncryptionOptions extends ExpiryOptions {
+    /** AES-GCM kulcs (generateKey, deriveKey) */
+    key: CryptoKey | Promise<CryptoKey>;
+}
+
+/** Titkosított érték */
+interface Encrypted {
+    $encrypted: string;
+}
+
+const isEncrypted = function(value: unknown): value is Encrypted {
+    return !!value && typeof value === 'object' && typeof (value as Encrypted).$encrypted === 'string';
+};
+
+/**
+ * Titkosított érték visszafejtésének hibája (rossz kulcs vagy sérült adat)
+ * @property key - a titkosított érték helye (pool.kulcs vagy adatbázis/store)
+ */
+export class StorageDecryptionError extends Error {
+    public readonly key: string;
+
+    constructor(key: string, cause?: unknown) {
+        super(`Storage decryption failed (${key}): wrong key or corrupted data`, { cause });
+        this.name = 'StorageDecryptionError';
+        this.key = key;
+    }
+}
+
+/**
+ * Érték titkosítása (az aktuális szerializálóval alakítja szöveggé)
+ * @param key
+ * @param value
+ * @return {Promise<Encrypted>}
+ */
+const encryptValue = function(key: CryptoKey | Promise<CryptoKey>, value: unknown): Promise<Encrypted> {
+    return Promise.resolve(key).then(
+        (cryptoKey: CryptoKey) => encryptText(cryptoKey, serializer.stringify(value))
+    ).then(
+        ($encrypted: string) => ({ $encrypted })
+    );
+};
+
+/**
+ * Titkosított érték visszafejtése (a nem titkosított értéket változatlanul adja vissza)
+ * @param key
+ * @param value
+ * @param location - hibaüzenethez
+ * @return {Promise}
+ * @throws {StorageDecryptionError}
+ */
+const decryptValue = function(key: CryptoKey | Promise<CryptoKey>, value: unknown, location: string): Promise<unknown> {
+    if (!isEncrypted(value)) {
+        return Promise.resolve(value);
+    }
+    return Promise.resolve(key).then(
+        (cryptoKey: CryptoKey) => decryptText(cryptoKey, value.$encrypted)
+    ).then(
+        (text: string) => serializer.parse(text),
+        (error: unknown) => {
+            throw new StorageDecryptionError(location, error);
+        }
+    );
+};
+
+/**
+ * Titkosított pool (AES-GCM); az elemek egyenként titkosítva kerülnek egy Cache pool-ba
+ * (a nem titkosított elemeket változatlanul olvassa, így meglévő pool is átállítható)
+ * @param type
+ * @param pool
+ * @param options - key: titkosító kulcs, ttl: az elemek élettartama (ms)
+ * @return promise alapú kezelő
+ * @example
+ *  const drafts = EncryptedPool('local', 'drafts', { key: deriveKey(password, userId) });
+ *  await drafts.set('letter', { to: 'John', text: '...' });
+ *  const letter = await drafts.get('letter');
+ */
+export const EncryptedPool = function(type: StorageType, pool: string, { key, ttl }: EncryptionOptions) {
+    const cache = Cache(type, pool, { ttl });
+    return {
+        /**
+         * @throws {StorageDecryptionError}
+         */
+        get: function<T = unknown>(prop: string): Promise<T | undefined> {
+            return decryptValue(key, cache[prop], `${pool}.${prop}`) as Promise<T | undefined>;
+        },
+        set: function(prop: string, value: unknown): Promise<void> {
+            return encryptValue(key, value).then(
+                (encrypted: Encrypted) => {
+                    cache[prop] = encrypted;
+                }
+            );
+        },
+        /** több elem beírása egyetlen írással */
+        assign: function(values: Data<unknown>): Promise<void> {
+            return Promise.all(
+                Object.entries(values).map(
+                    ([prop, value]) => encryptValue(key, value).then((encrypted) => [prop, encrypted])
+                )
+            ).then(
+                (entries) => Cache.assign(type, pool, Object.fromEntries(entries), { ttl })
+            );
+        },
+        remove: function(prop: string): void {
+            delete cache[prop];
+        },
+        clear: function(): void {
+            Cache.clear(type, pool);
+        },
+        /**
+         * Pool visszafejtett tartalma sima objektumként
+         * @throws {StorageDecryptionError}
+         */
+        snapshot: function(): Promise<Data<unknown>> {
+            return Promise.all(
+                Object.entries(Cache.snapshot(type, pool)).map(
+                    ([prop, value]) => decryptValue(key, value, `${pool}.${prop}`).then((decrypted) => [prop, decrypted])
+                )
+            ).then(Object.fromEntries);
+        },
+    };
+};
+
+export interface IndexSchema {
+    name: string;
+    keyPath: string | string[];
+    unique?: boolean;
+    multiEntry?: boolean;
+}
+
+export interface StoreSchema {
+    storeName: string;
+    keyPath?: string | string[];
+    autoIncrement?: boolean;
+    indexes?: IndexSchema[];
+}
+
+export interface SchemaOptions {
+    /** verziónkénti upgrade callback-ek (a kulcs az a verzió, amire léptet), a store-ok létrehozása után futnak */
+    upgrades?: Record<number, (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void>;
+    /** egy másik (régi verziót használó) kapcsolat blokkolja a verzióváltást */
+    onBlocked?: (event: IDBVersionChangeEvent) => void;
+    /** egy másik kapcsolat verzióváltást kér (a kapcsolat ezután automatikusan bezárul) */
+    onVersionChange?: (event: IDBVersionChangeEvent) => void;
+}
+
+/** Store vagy index, amin lekérdezés futtatható */
+export type DBSource = IDBObjectStore | IDBIndex;
+
+export interface DBQueryOptions {
+    /** kulcs vagy kulcstartomány (DB.range) */
+    range?: IDBValidKey | IDBKeyRange;
+    direction?: IDBCursorDirection;
+    /** kihagyott elemek száma */
+    offset?: number;
+    /** visszaadott elemek maximális száma */
+    limit?: number;
+}
+
+export interface DBCursorEntry<T = unknown> {
+    key: IDBValidKey;
+    primaryKey: IDBValidKey;
+    value: T;
+}
+
+/** Tranzakción belüli művelet (hiba esetén a rejectben szerepel) */
+export interface DBOperation {
+    name: 'get' | 'add' | 'put' | 'delete' | 'clear' | 'putMany' | 'deleteMany';
+    storeName: string;
+    /** putMany/deleteMany esetén az elem indexe */
+    index?: number;
+}
+
+export interface DBTransactionScope {
+    transaction: IDBTransaction;
+    store: (storeName: string) => IDBObjectStore;
+    get: <T = unknown>(storeName: string, key: IDBValidKey) => Promise<T>;
+    add: (storeName: string, data: Data<unknown>) => Promise<IDBValidKey>;
+    put: (storeName: string, data: Data<unknown>) => Promise<IDBValidKey>;
+    delete: (storeName: string, key: IDBValidKey) => Promise<void>;
+    clear: (storeName: string) => Promise<void>;
+    putMany: (storeName: string, items: Data<unknown>[]) => Promise<IDBValidKey[]>;
+    deleteMany: (storeName: string, keys: IDBValidKey[]) => Promise<void>;
+}
+
+export interface DBRepositoryOptions {
+    /** AES-GCM kulcs: az értékek titkosítva tárolódnak, csak a store kulcs mezői maradnak olvashatók (indexelhetők) */
+    key?: CryptoKey | Promise<CryptoKey>;
+}
+
+/** Egy store típusos kezelője (DB.repository) */
+export interface DBRepository<T, K extends IDBValidKey = IDBValidKey> {
+    get: (key: K) => Promise<T | undefined>;
+    add: (value: T) => Promise<K>;
+    put: (value: T) => Promise<K>;
+    delete: (key: K) => Promise<void>;
+    clear: () => Promise<void>;
+    count: (range?: K | IDBKeyRange) => Promise<number>;
+    /** elemek listázása (tartomány, irány, lapozás) */
+    list: (options?: DBQueryOptions) => Promise<T[]>;
+    /** lekérdezés index alapján */
+    query: (indexName: string, options?: DBQueryOptions) => Promise<T[]>;
+}
+
+/**
+ * IDBRequest eredménye Promise-ként
+ * @param request
+ * @param message - hibaüzenet
+ * @return {Promise}
+ */
+const requestResult = function<T>(request: IDBRequest<T>, message: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = function(): void {
+            resolve(request.result);
+        };
+
+        request.onerror = function(): void {
+            console.error('Error', request.error);
+            reject({ type: 'storage', message, data: request.error });
+        };
+    });
+};
+
+/** Nyitott adatbázis-kapcsolatok adatbázis-nevenként */
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Adatbázis megnyitása (verzió nélkül az aktuális verzióval), a kapcsolat cache-elésével
+ * @param name - adatbázis neve
+ * @param version - verzió
+ * @param onUpgrade - onupgradeneeded kezelő
+ * @param options - onBlocked, onVersionChange
+ * @return {Promise<IDBDatabase>}
+ */
+const openDatabase = function(
+    name: string,
+    version?: number,
+    onUpgrade?: (db: IDBDatabase, transaction: IDBTransaction, event: IDBVersionChangeEvent) => void,
+    { onBlocked, onVersionChange }: SchemaOptions = { }
+): Promise<IDBDatabase> {
+    const connection: Promise<IDBDatabase> = new Promise((resolve, reject) => {
+        const openRequest = idbFactory().open(name, version);
+        let missing = false;
+
+        openRequest.onupgradeneeded = function(event: IDBVersionChangeEvent): void {
+            // verzió nélkül nem jöhet létre üres adatbázis, különben a későbbi createSchema nem kap upgradeneeded-et
+            if (version === undefined && event.oldVersion === 0) {
+                missing = true;
+                (openRequest.transaction as IDBTransaction).abort();
+                return;
+            }
+            onUpgrade?.(openRequest.result, openRequest.transaction as IDBTransaction, event);
+        };
+
+        openRequest.onblocked = function(event: IDBVersionChangeEvent): void {
+            console.warn('Blocked', name);
+            onBlocked?.(event);
+        };
+
+        openRequest.onsuccess = function(): void {
+            const db = openRequest.result;
+            const forget = (): void => {
+                if (connections.get(name) === connection) {
+                    connections.delete(name);
+                }
+            };
+            db.onversionchange = function(event: IDBVersionChangeEvent): void {
+                db.close();
+                forget();
+                onVersionChange?.(event);
+            };
+            db.onclose = forget;
+            resolve(db);
+        };
+
+        openRequest.onerror = function(): void {
+            connections.delete(name);
+            if (missing) {
+                reject({ type: 'storage', message: `database ${name} not created, call DB.createSchema first`, data: openRequest.error });
+                return;
+            }
+            console.error('Error', openRequest.error);
+            reject({ type: 'storage', message: 'open request error', data: openRequest.error });
+        };
+    });
+    connections.set(name, connection);
+    return connection;
+};
+
 /**
  * IndexedDB kezelő objektum
  * @example
  *  // séma létrehozása (a második argumentumot a db séma módosítása esetén léptetni kell):
- *  const db = await DB.createSchema('cube', 1, [
+ *  const db = await DB.createSchema('cube', 2, [
  *      { storeName: 'files', keyPath: 'id' },
- *      { storeName: 'state', keyPath: 'step' }
- *  ]);
+ *      { storeName: 'state', keyPath: 'step', indexes: [{ name: 'byDate', keyPath: 'date' }] }
+ *  ], {
+ *      upgrades: {
+ *          2: (db, transaction) => { transaction.objectStore('state').clear(); }
+ *      },
+ *      onVersionChange: () => alert('Please reload the page')
+ *  });
  *  // olvasás:
  *  const fileStore = await DB.openStore('cube', 'files');
  *  const storagedPdfs = await DB.get(fileStore, 'pdf');
  *  // beszúrás:
  *  const fileStore = await DB.openStore('cube', 'files');
  *  await DB.put(fileStore, { id: 'png', files: data });
+ *  // lekérdezés index és kulcstartomány alapján, lapozással:
+ *  const stateStore = await DB.openStore('cube', 'state', 'readonly');
+ *  const page = await DB.query(DB.index(stateStore, 'byDate'), { range: DB.range.above(since), offset: 20, limit: 10 });
+ *  // bejárás:
+ *  for await (const { key, value } of DB.iterate(fileStore, { range: DB.range.prefix('img-') })) { ... }
+ *  // több művelet egy tranzakcióban (bármelyik hibája esetén egyik sem érvényesül):
+ *  await DB.transaction('cube', ['files', 'state'], 'readwrite', async (tx) => {
+ *      await tx.putMany('files', [{ id: 'a', data }, { id: 'b', data }]);
+ *      await tx.delete('state', 3);
+ *  });
+ *  // típusos repository:
+ *  const files = DB.repository<StoredFile, string>('cube', 'files');
+ *  const pdf = await files.get('pdf'); // StoredFile | undefined
  */
 export const DB = {
 
+    /**
+     * Adatbázis létrehozása/megnyitása a megadott store-okkal és indexekkel
+     * @param name - adatbázis neve
+     * @param version - séma verziója (a séma módosításakor léptetni kell)
+     * @param stores - store-ok (a hiányzó store-ok és indexek létrejönnek)
+     * @param options - upgrades, onBlocked, onVersionChange
+     * @return {Promise<IDBDatabase>}
+     */
+    createSchema: function(
+        name: string, version: number, stores: StoreSchema[], options: SchemaOptions = { }
+    ): Promise<IDBDatabase> {
+        const upgrade = function(db: IDBDatabase, transaction: IDBTransaction, event: IDBVersionChangeEvent): void {
+            stores.forEach(
+                ({ storeName, keyPath, autoIncrement, indexes = [] }) => {
+                    const store = db.objectStoreNames.contains(storeName)
+                        ? transaction.objectStore(storeName)
+                        : db.createObjectStore(storeName, { keyPath, autoIncrement });
+                    indexes.forEach(
+                        (index) => {
+                            if (!store.indexNames.contains(index.name)) {
+                                store.createIndex(index.name, index.keyPath, {
+                                    unique: index.unique, multiEntry: index.multiEntry
+                                });
+                            }
+                        }
+                    );
+                }
+            );
+            const newVersion = event.newVersion ?? version;
+            for (let current = event.oldVersion + 1; current <= newVersion; current++) {
+                options.upgrades?.[current]?.(db, transaction, event.oldVersion);
+            }
+        };
+        return openDatabase(name, version, upgrade, options);
+    },
+
+    /**
+     * Store megnyitása (a createSchema-val létrehozott kapcsolatot használja, ha van)
+     * @param name - adatbázis neve
+     * @param storeName - store neve
+     * @param mode - tranzakció módja
+     * @return {Promise<IDBObjectStore>}
+     */
+    openStore: function(name: string, storeName: string, mode: IDBTransactionMode = 'readwrite'): Promise<IDBObjectStore> {
+        return (connections.get(name) ?? openDatabase(name)).then(
+            (db: IDBDatabase) => db.transaction(storeName, mode).objectStore(storeName)
+        );
+    },
+
+    /**
+     * @deprecated helyette: DB.createSchema()
+     */
     createStore: function(storeName: string, keyPath: string = 'id'): Promise<IDBDatabase> {
         return new Promise((resolve, reject) => {
-            const openRequest = indexedDB.open('nucleus_scouting', 1);
+            const openRequest = idbFactory().open('nucleus_scouting', 1);
 
             openRequest.onupgradeneeded = function(): void {
                 const db = openRequest.result;
@@ -139,7 +1369,7 @@ export const DB = {
         });
     },
 
-    get: function(store: IDBObjectStore, key: string): Promise<unknown> {
+    get: function(store: IDBObjectStore, key: IDBValidKey): Promise<unknown> {
         return new Promise((resolve, reject) => {
             const request = store.get(key);
 
@@ -190,7 +1420,7 @@ export const DB = {
         });
     },
 
-    delete: function(store: IDBObjectStore, key: string): Promise<IDBValidKey> {
+    delete: function(store: IDBObjectStore, key: IDBValidKey): Promise<IDBValidKey> {
         return new Promise((resolve, reject) => {
             const request = store.delete(key);
 
@@ -220,4 +1450,603 @@ export const DB = {
         });
     },
 
+    /**
+     * Több elem beírása (a store tranzakciójában)
+     * @param store
+     * @param items
+     * @return {Promise<array>} kulcsok
+     */
+    putMany: function(store: IDBObjectStore, items: Data<unknown>[]): Promise<IDBValidKey[]> {
+        return Promise.all(
+            items.map((item) => requestResult(store.put(item), 'put request error'))
+        );
+    },
+
+    /**
+     * Több elem törlése (a store tranzakciójában)
+     * @param store
+     * @param keys
+     * @return {Promise}
+     */
+    deleteMany: function(store: IDBObjectStore, keys: IDBValidKey[]): Promise<void> {
+        return Promise.all(
+            keys.map((key) => requestResult(store.delete(key), 'delete request error'))
+        ).then(() => undefined);
+    },
+
+    /**
+     * Műveletek futtatása egy (akár több store-t érintő) tranzakcióban
+     * A complete eseménykor resolve-ol a callback visszatérési értékével; abort/hiba esetén
+     * a hibát okozó művelettel rejectel, és egyik művelet sem érvényesül.
+     * A callback ne várjon nem IndexedDB műveletre (a tranzakció ekkor automatikusan lezárul), ilyenkor rejectel.
+     * @param name - adatbázis neve
+     * @param storeNames - érintett store-ok
+     * @param mode - tranzakció módja
+     * @param callback - műveletek (a kapott scope-on keresztül)
+     * @return {Promise}
+     */
+    transaction: function<R>(
+        name: string,
+        storeNames: string | string[],
+        mode: IDBTransactionMode,
+        callback: (tx: DBTransactionScope) => R | Promise<R>
+    ): Promise<R> {
+        return (connections.get(name) ?? openDatabase(name)).then(
+            (db: IDBDatabase) => new Promise<R>((resolve, reject) => {
+                const transaction = db.transaction(storeNames, mode);
+                const operations = new WeakMap<IDBRequest, DBOperation>();
+                let failedOperation: DBOperation | null = null;
+                let callbackState: 'pending' | 'fulfilled' | 'rejected' = 'pending';
+                let callbackError: unknown = null;
+                let completed = false;
+                let committedEarly = false;
+                let result: R;
+
+                const track = function<T>(operation: DBOperation, createRequest: () => IDBRequest<T>): Promise<T> {
+                    let request: IDBRequest<T>;
+                    try {
+                        request = createRequest();
+                    }
+                    catch (error) {
+                        // pl. TransactionInactiveError, ha a tranzakció már lezárult
+                        failedOperation ??= operation;
+                        return Promise.reject(error);
+                    }
+                    operations.set(request, operation);
+                    return requestResult(request, `${operation.name} request error`);
+                };
+
+                const scope: DBTransactionScope = {
+                    transaction,
+                    store: (storeName) => transaction.objectStore(storeName),
+                    get: <T>(storeName: string, key: IDBValidKey) => track(
+                        { name: 'get', storeName }, () => transaction.objectStore(storeName).get(key)
+                    ) as Promise<T>,
+                    add: (storeName, data) => track(
+                        { name: 'add', storeName }, () => transaction.objectStore(storeName).add(data)
+                    ),
+                    put: (storeName, data) => track(
+                        { name: 'put', storeName }, () => transaction.objectStore(storeName).put(data)
+                    ),
+                    delete: (storeName, key) => track(
+                        { name: 'delete', storeName }, () => transaction.objectStore(storeName).delete(key)
+                    ),
+                    clear: (storeName) => track(
+                        { name: 'clear', storeName }, () => transaction.objectStore(storeName).clear()
+                    ),
+                    putMany: (storeName, items) => Promise.all(
+                        items.map((item, index) => track(
+                            { name: 'putMany', storeName, index }, () => transaction.objectStore(storeName).put(item)
+                        ))
+                    ),
+                    deleteMany: (storeName, keys) => Promise.all(
+                        keys.map((key, index) => track(
+                            { name: 'deleteMany', storeName, index }, () => transaction.objectStore(storeName).delete(key)
+                        ))
+                    ).then(() => undefined),
+                };
+
+                const fail = function(error: unknown): void {
+                    console.error('Error', error);
+                    reject({ type: 'storage', message: 'transaction error', data: error, operation: failedOperation });
+                };
+
+                // csak akkor resolve-ol, ha a tranzakció lezárult és a callback is teljesült (a lezárulás előtt)
+                const settle = function(): void {
+                    if (!completed || callbackState === 'pending') {
+                        return;
+                    }
+                    if (callbackState === 'fulfilled' && !committedEarly) {
+                        resolve(result);
+                    }
+                    else {
+                        fail(callbackError ?? new DOMException(
+                            'The transaction committed before the callback finished (non-IndexedDB work was awaited)',
+                            'TransactionInactiveError'
+                        ));
+                    }
+                };
+
+                transaction.onerror = function(event: Event): void {
+                    failedOperation ??= operations.get(event.target as IDBRequest) ?? null;
+                };
+
+                transaction.oncomplete = function(): void {
+                    completed = true;
+                    committedEarly = callbackState === 'pending';
+                    settle();
+                };
+
+                transaction.onabort = function(): void {
+                    fail(transaction.error ?? callbackError);
+                };
+
+                new Promise<R>((resolveCallback) => resolveCallback(callback(scope))).then(
+                    (value: R) => {
+                        result = value;
+                        callbackState = 'fulfilled';
+                        settle();
+                    },
+                    (error: unknown) => {
+                        callbackError = error;
+                        callbackState = 'rejected';
+                        try {
+                            transaction.abort();
+                        }
+                        catch (_error) {
+                            // a tranzakció már lezárult, a hiba a complete után érkezett
+                            settle();
+                        }
+                    }
+                );
+            })
+        );
+    },
+
+    /**
+     * Típusos, promise alapú kezelő egy store-hoz (a kapcsolatot első használatkor nyitja meg és cache-eli)
+     * @param name - adatbázis neve
+     * @param storeName - store neve
+     * @param options - key: titkosító kulcs
+     * @return {DBRepository}
+     * @example
+     *  const drafts = DB.repository<Draft, string>('cube', 'drafts', { key: deriveKey(password, userId) });
+     */
+    repository: function<T, K extends IDBValidKey = IDBValidKey>(
+        name: string, storeName: string, { key: cryptoKey }: DBRepositoryOptions = { }
+    ): DBRepository<T, K> {
+        const withStore = function<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => Promise<R>): Promise<R> {
+            return DB.openStore(name, storeName, mode).then(operation);
+        };
+
+        const keyPaths = (store: IDBObjectStore): string[] => (store.keyPath === null ? [] : [store.keyPath].flat());
+
+        // a titkosítás a tranzakció megnyitása előtt történik, mert a tranzakció nem vár más async műveletre
+        const write = function<R>(value: T, operation: (store: IDBObjectStore, record: Data<unknown>) => Promise<R>): Promise<R> {
+            return (cryptoKey ? encryptValue(cryptoKey, value) : Promise.resolve(null)).then(
+                (encrypted: Encrypted | null) => withStore('readwrite', (store) => operation(
+                    store, (encrypted ? { ...pick(value, keyPaths(store)), ...encrypted } : value) as Data<unknown>
+                ))
+            );
+        };
+
+        const read = function(store: IDBObjectStore, record: unknown): Promise<T> {
+            if (!cryptoKey || !isEncrypted(record)) {
+                return Promise.resolve(record as T);
+            }
+            return decryptValue(cryptoKey, record, `${name}/${storeName}`).then(
+                (value: unknown) => merge(value, pick(record, keyPaths(store))) as T
+            );
+        };
+
+        return {
+            get: (key) => withStore('readonly', (store) => DB.get(store, key).then((record) => read(store, record))),
+            add: (value) => write(value, (store, record) => requestResult(store.add(record), 'add request error') as Promise<K>),
+            put: (value) => write(value, (store, record) => DB.put(store, record) as Promise<K>),
+            delete: (key) => withStore('readwrite', (store) => DB.delete(store, key).then(() => undefined)),
+            clear: () => withStore('readwrite', (store) => DB.clear(store).then(() => undefined)),
+            count: (range) => withStore('readonly', (store) => DB.count(store, range)),
+            list: (options) => withStore('readonly', (store) => DB.query(store, options).then(
+                (records) => Promise.all(records.map((record) => read(store, record)))
+            )),
+            query: (indexName, options) => withStore('readonly', (store) => DB.query(store.index(indexName), options).then(
+                (records) => Promise.all(records.map((record) => read(store, record)))
+            )),
+        };
+    },
+
+    /**
+     * Kulcstartományok
+     */
+    range: {
+        only: (value: IDBValidKey): IDBKeyRange => keyRange().only(value),
+        between: (
+            lower: IDBValidKey, upper: IDBValidKey, { lowerOpen = false, upperOpen = false } = { }
+        ): IDBKeyRange => keyRange().bound(lower, upper, lowerOpen, upperOpen),
+        above: (value: IDBValidKey, open: boolean = true): IDBKeyRange => keyRange().lowerBound(value, open),
+        below: (value: IDBValidKey, open: boolean = true): IDBKeyRange => keyRange().upperBound(value, open),
+        /** adott prefix-szel kezdődő string kulcsok */
+        prefix: (prefix: string): IDBKeyRange => keyRange().bound(prefix, `${prefix}\uffff`, false, false),
+    },
+
+    /**
+     * Store indexe (index alapján történő lekérdezéshez)
+     * @param store
+     * @param indexName
+     * @return {IDBIndex}
+     */
+    index: function(store: IDBObjectStore, indexName: string): IDBIndex {
+        return store.index(indexName);
+    },
+
+    /**
+     * Összes (vagy a tartományba eső) elem lekérése
+     * @param source - store vagy index
+     * @param range - kulcs vagy kulcstartomány
+     * @param count - maximális elemszám
+     * @return {Promise<array>}
+     */
+    getAll: function<T = unknown>(source: DBSource, range?: IDBValidKey | IDBKeyRange, count?: number): Promise<T[]> {
+        return requestResult(source.getAll(range, count), 'getAll request error');
+    },
+
+    /**
+     * Elemek megszámolása
+     * @param source - store vagy index
+     * @param range - kulcs vagy kulcstartomány
+     * @return {Promise<number>}
+     */
+    count: function(source: DBSource, range?: IDBValidKey | IDBKeyRange): Promise<number> {
+        return requestResult(source.count(range), 'count request error');
+    },
+
+    /**
+     * Lekérdezés cursor-ral (tartomány, irány, lapozás)
+     * @param source - store vagy index
+     * @param options - range, direction, offset, limit
+     * @return {Promise<array>}
+     */
+    query: function<T = unknown>(
+        source: DBSource, { range, direction, offset = 0, limit = Infinity }: DBQueryOptions = { }
+    ): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            const values: T[] = [];
+            const request = source.openCursor(range, direction);
+            let skipped = offset === 0;
+
+            request.onsuccess = function(): void {
+                const cursor = request.result;
+                if (!cursor || values.length >= limit) {
+                    resolve(values);
+                    return;
+                }
+                if (!skipped) {
+                    skipped = true;
+                    cursor.advance(offset);
+                    return;
+                }
+                values.push(cursor.value);
+                if (values.length >= limit) {
+                    resolve(values);
+                }
+                else {
+                    cursor.continue();
+                }
+            };
+
+            request.onerror = function(): void {
+                console.error('Error', request.error);
+                reject({ type: 'storage', message: 'cursor request error', data: request.error });
+            };
+        });
+    },
+
+    /**
+     * Elemek bejárása async iterator-ral
+     * (a ciklusmagban nem szabad más, nem IndexedDB-s async műveletre várni, mert a tranzakció lezárul)
+     * @param source - store vagy index
+     * @param options - range, direction
+     * @return {AsyncGenerator}
+     */
+    iterate: async function*<T = unknown>(
+        source: DBSource, { range, direction }: Pick<DBQueryOptions, 'range' | 'direction'> = { }
+    ): AsyncGenerator<DBCursorEntry<T>> {
+        const request = source.openCursor(range, direction);
+        let cursor = await requestResult(request, 'cursor request error');
+        while (cursor) {
+            yield { key: cursor.key, primaryKey: cursor.primaryKey, value: cursor.value };
+            const next = requestResult(request, 'cursor request error');
+            cursor.continue();
+            cursor = await next;
+        }
+    },
+
+    /**
+     * Az origin által foglalt és rendelkezésre álló tárhely (IndexedDB, Cache API stb. együtt)
+     * @return {Promise<StorageEstimate | null>} null, ha a böngésző nem támogatja
+     */
+    estimate: function(): Promise<StorageEstimate | null> {
+        if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+            return Promise.resolve(null);
+        }
+        return navigator.storage.estimate();
+    },
+
+};
+
+/** Az export dokumentum azonosítója */
+const EXPORT_FORMAT = '@herbertusz/utility:storage-export';
+
+/** Az export dokumentum aktuális verziója */
+const EXPORT_VERSION = 1;
+
+export interface StorageExportOptions {
+    /** exportálandó localStorage kulcsok (a Cache pool-ok is kulcsok), true: az összes */
+    local?: string[] | true;
+    /** exportálandó sessionStorage kulcsok, true: az összes */
+    session?: string[] | true;
+    /** exportálandó store-ok adatbázisonként */
+    databases?: Data<string[]>;
+}
+
+export interface StorageImportOptions {
+    /**
+     * merge: a dokumentum elemei felülírják a meglévőket (a Cache pool-ok elemenként olvadnak össze),
+     * overwrite: a dokumentumban szereplő kulcsok egészükben cserélődnek, a store-ok előbb kiürülnek
+     * (a dokumentumban nem szereplő Web Storage kulcsok mindkét esetben megmaradnak, a pool-lista mindig egyesül)
+     */
+    strategy?: 'merge' | 'overwrite';
+}
+
+/** IndexedDB rekord az export dokumentumban */
+export interface DBExportRecord {
+    key: IDBValidKey;
+    value: unknown;
+}
+
+/** Export dokumentum (az exportSerializer-rel szerializálva) */
+export interface StorageExport {
+    format: string;
+    version: number;
+    createdAt: string;
+    /** tárolt szövegek kulcsonként (tömörítés nélkül) */
+    storage: Partial<Record<StorageType, Data<string>>>;
+    /** rekordok adatbázisonként és store-onként */
+    databases: Data<Data<DBExportRecord[]>>;
+}
+
+/** base64-re alakított Blob-ok (a szerializáló ezeket ismeri fel) */
+const blobMarkers = new WeakSet<object>();
+
+interface BlobMarker {
+    type: string;
+    base64: string;
+    /** File esetén */
+    name?: string;
+}
+
+/** Az export dokumentum szerializálója (Date, Map stb. és Blob támogatással) */
+const exportSerializer = createRichSerializer([
+    {
+        tag: 'Blob',
+        test: (value) => typeof value === 'object' && value !== null && blobMarkers.has(value),
+        encode: (marker: BlobMarker) => ({ ...marker }),
+        decode: (data: BlobMarker) => {
+            blobMarkers.add(data);
+            return data;
+        },
+    },
+]);
+
+/**
+ * Blob-ok base64-re alakítása (tömbökben és sima objektumokban is)
+ * @param value
+ * @return {Promise}
+ */
+const encodeBlobs = function(value: unknown): Promise<unknown> {
+    if (value instanceof Blob) {
+        return FILE.blobToBase64(value).then(
+            (base64: string) => {
+                const marker: BlobMarker = { type: value.type, base64 };
+                if (typeof File !== 'undefined' && value instanceof File) {
+                    marker.name = value.name;
+                }
+                blobMarkers.add(marker);
+                return marker;
+            }
+        );
+    }
+    if (Array.isArray(value)) {
+        return Promise.all(value.map(encodeBlobs));
+    }
+    if (isPlainObject(value)) {
+        return Promise.all(
+            Object.entries(value as object).map(([key, item]) => encodeBlobs(item).then((encoded) => [key, encoded]))
+        ).then(Object.fromEntries);
+    }
+    return Promise.resolve(value);
+};
+
+/**
+ * Az encodeBlobs visszaalakítása
+ * @param value
+ * @return {Promise}
+ */
+const decodeBlobs = function(value: unknown): Promise<unknown> {
+    if (typeof value === 'object' && value !== null && blobMarkers.has(value)) {
+        const { type, base64, name } = value as BlobMarker;
+        return FILE.base64ToBlob(base64, type).then(
+            (blob: Blob) => (name === undefined ? blob : new File([blob], name, { type }))
+        );
+    }
+    if (Array.isArray(value)) {
+        return Promise.all(value.map(decodeBlobs));
+    }
+    if (isPlainObject(value)) {
+        return Promise.all(
+            Object.entries(value as object).map(([key, item]) => decodeBlobs(item).then((decoded) => [key, decoded]))
+        ).then(Object.fromEntries);
+    }
+    return Promise.resolve(value);
+};
+
+/**
+ * Web Storage kulcsainak exportálása
+ * @param type
+ * @param keys
+ * @return {Promise}
+ */
+const exportWebStorage = function(type: StorageType, keys: string[] | true): Promise<Data<string>> {
+    const area = webStorage(type);
+    const selected = keys === true ? Array.from({ length: area.length }, (_, i) => area.key(i) as string) : keys;
+    return Promise.all(
+        selected.filter((key) => area.getItem(key) !== null).map(
+            (key) => decompressText(area.getItem(key) as string).then((text: string) => [key, text])
+        )
+    ).then(Object.fromEntries);
+};
+
+/**
+ * Store rekordjainak exportálása
+ * @param name - adatbázis neve
+ * @param storeName
+ * @return {Promise}
+ */
+const exportStore = function(name: string, storeName: string): Promise<DBExportRecord[]> {
+    return DB.openStore(name, storeName, 'readonly').then(
+        (store: IDBObjectStore) => Promise.all([
+            requestResult(store.getAllKeys(), 'getAllKeys request error'),
+            DB.getAll(store),
+        ])
+    ).then(
+        ([keys, values]) => encodeBlobs(keys.map((key, i) => ({ key, value: values[i] }))) as Promise<DBExportRecord[]>
+    );
+};
+
+/**
+ * Web Storage kulcs visszaállítása
+ * @param type
+ * @param key
+ * @param text - exportált szöveg
+ * @param pools - pool-nevek (merge esetén ezek elemenként olvadnak össze)
+ * @param strategy
+ */
+const importWebStorageKey = function(
+    type: StorageType, key: string, text: string, pools: string[], strategy: StorageImportOptions['strategy']
+): void {
+    let incoming: unknown;
+    try {
+        incoming = serializer.parse(text);
+    }
+    catch (_error) {
+        // nem az aktuális szerializálóval írt érték, változatlanul íródik vissza
+        webStorage(type).setItem(key, text);
+        return;
+    }
+    const existing = parseValue(webStorage(type).getItem(key));
+    if (key === CACHE_POOLS_KEY && Array.isArray(existing) && Array.isArray(incoming)) {
+        storage[type].set(key, uniq([...existing, ...incoming]));
+    }
+    else if (strategy === 'merge' && pools.includes(key) && isPlainObject(existing) && isPlainObject(incoming)) {
+        storage[type].set(key, { ...existing as Data<unknown>, ...incoming as Data<unknown> });
+    }
+    else {
+        storage[type].set(key, incoming);
+    }
+};
+
+/**
+ * Web Storage kulcsok és IndexedDB store-ok exportálása egy verziózott JSON dokumentumba
+ * @param options - local, session, databases
+ * @return {Promise<string>} JSON dokumentum
+ * @example
+ *  const json = await exportStorage({ local: true, databases: { cube: ['files', 'state'] } });
+ *  FILE.download(new Blob([json], { type: 'application/json' }), 'cube-state.json');
+ */
+export const exportStorage = function({ local, session, databases = { } }: StorageExportOptions): Promise<string> {
+    const webStorages = Object.entries({ local, session }).filter(([, keys]) => keys) as [StorageType, string[] | true][];
+    return Promise.all([
+        Promise.all(
+            webStorages.map(([type, keys]) => exportWebStorage(type, keys).then((data) => [type, data]))
+        ).then(Object.fromEntries),
+        Promise.all(
+            Object.entries(databases).map(
+                ([name, storeNames]) => Promise.all(
+                    storeNames.map((storeName) => exportStore(name, storeName).then((records) => [storeName, records]))
+                ).then((stores) => [name, Object.fromEntries(stores)])
+            )
+        ).then(Object.fromEntries),
+    ]).then(
+        ([storageData, databaseData]) => {
+            const exported: StorageExport = {
+                format: EXPORT_FORMAT,
+                version: EXPORT_VERSION,
+                createdAt: new Date().toISOString(),
+                storage: storageData,
+                databases: databaseData,
+            };
+            return exportSerializer.stringify(exported);
+        }
+    );
+};
+
+/**
+ * Az exportStorage-dzsel készült dokumentum visszaállítása
+ * @param document - JSON dokumentum (vagy a feltöltött fájl)
+ * @param options - strategy
+ * @return {Promise}
+ * @throws {StorageSchemaError} ha a dokumentum nem értelmezhető vagy újabb verziójú
+ * @example
+ *  input.addEventListener('change', () => importStorage(input.files[0], { strategy: 'overwrite' }));
+ */
+export const importStorage = function(
+    document: string | Blob, { strategy = 'merge' }: StorageImportOptions = { }
+): Promise<void> {
+    return (typeof document === 'string' ? Promise.resolve(document) : document.text()).then(
+        (text: string) => {
+            let data: StorageExport;
+            try {
+                data = exportSerializer.parse(text) as StorageExport;
+            }
+            catch (error) {
+                throw new StorageSchemaError('import', 'parse', 'The document is not valid JSON', error);
+            }
+            if (data?.format !== EXPORT_FORMAT) {
+                throw new StorageSchemaError('import', 'parse', 'The document is not a storage export', data);
+            }
+            if (data.version > EXPORT_VERSION) {
+                throw new StorageSchemaError('import', 'version', `Unsupported export version ${data.version}`, data);
+            }
+
+            (Object.entries(data.storage) as [StorageType, Data<string>][]).forEach(
+                ([type, entries]) => {
+                    const incomingPools = entries[CACHE_POOLS_KEY] ? parseValue(entries[CACHE_POOLS_KEY]) : [];
+                    const pools = [...readPoolNames(type), ...(Array.isArray(incomingPools) ? incomingPools : [])];
+                    Object.entries(entries).forEach(
+                        ([key, value]) => importWebStorageKey(type, key, value, pools, strategy)
+                    );
+                }
+            );
+
+            return Promise.all(
+                Object.entries(data.databases).filter(([, stores]) => Object.keys(stores).length > 0).map(
+                    ([name, stores]) => decodeBlobs(stores).then(
+                        (decoded) => DB.transaction(name, Object.keys(stores), 'readwrite', (tx) => {
+                            Object.entries(decoded as Data<DBExportRecord[]>).forEach(
+                                ([storeName, records]) => {
+                                    const store = tx.store(storeName);
+                                    if (strategy === 'overwrite') {
+                                        store.clear();
+                                    }
+                                    records.forEach(
+                                        ({ key, value }) => (store.keyPath === null ? store.put(value, key) : store.put(value))
+                                    );
+                                }
+                            );
+                        })
+                    )
+                )
+            ).then(() => undefined);
+        }
+    );
 };
@@ -1,4 +1,4 @@
-import { cloneDeep, isEqual, isFunction, isString, pick, round, times, uniqBy } from 'lodash';
+import { cloneDeep, isEqual, isFunction, isString, mapValues, pick, round, times, uniqBy } from 'lodash';
 
 /**
  * Switch szerkezet funkcionális megfelelője (elsősorban értékadáshoz)
@@ -106,7 +106,159 @@ export const switching = function<T, U>(
  *          : 0;
  */
 export const condition = function<T>(construct: [boolean, T][]): T {
-    return (construct.find(branch => branch[0]) as T[])[1];
+    const branch = construct.find(branch => branch[0]);
+    if (!branch) {
+        throw new ConditionError();
+    }
+    return branch[1];
+};
+
+/**
+ * A condition egyik ága sem teljesült (és nincs alapértelmezett ág)
+ */
+export class ConditionError extends Error {
+    constructor() {
+        super('No condition branch matched');
+        this.name = 'ConditionError';
+    }
+}
+
+/**
+ * A condition lusta változata: a feltételek sorban értékelődnek ki, csak a teljesülő ág eredménye számítódik ki
+ * @param construct - [feltétel, eredmény] függvénypárok
+ * @param otherwise - alapértelmezett ág (ennek hiányában ConditionError)
+ * @return {*}
+ * @example
+ *  const price = conditionLazy([
+ *      [() => cache.has(id), () => cache.get(id)],
+ *      [() => isOffline(), () => estimatePrice(id)]
+ *  ], () => fetchPriceSync(id));
+ */
+export const conditionLazy = function<T>(construct: [() => boolean, () => T][], otherwise?: () => T): T {
+    const branch = construct.find(([test]) => test());
+    if (branch) {
+        return branch[1]();
+    }
+    if (otherwise) {
+        return otherwise();
+    }
+    throw new ConditionError();
+};
+
+/**
+ * A condition async változata: a feltételek sorban, egymás után várakozva értékelődnek ki,
+ * csak a teljesülő ág eredménye számítódik ki
+ * @param construct - [feltétel, eredmény] függvénypárok (Promise-t is visszaadhatnak)
+ * @param otherwise - alapértelmezett ág (ennek hiányában ConditionError-ral reject-elődik)
+ * @return {Promise}
+ * @example
+ *  const user = await conditionAsync([
+ *      [() => session.isValid(), () => session.user()],
+ *      [() => refreshToken(), () => api.get<User>('/me')]
+ *  ], () => guestUser);
+ */
+export const conditionAsync = function<T>(
+    construct: [() => boolean | Promise<boolean>, () => T | Promise<T>][], otherwise?: () => T | Promise<T>
+): Promise<T> {
+    const next = function(index: number): Promise<T> {
+        if (index >= construct.length) {
+            return otherwise ? Promise.resolve().then(otherwise) : Promise.reject(new ConditionError());
+        }
+        const [test, result] = construct[index];
+        return Promise.resolve().then(test).then(
+            (passed: boolean) => (passed ? result() : next(index + 1))
+        );
+    };
+    return next(0);
+};
+
+/**
+ * A match egyik ága sem illeszkedett (exhaustive() esetén, futásidőben)
+ * @property value - a vizsgált érték
+ */
+export class MatchError extends Error {
+    public readonly value: unknown;
+
+    constructor(value: unknown) {
+        let description: string;
+        try {
+            description = typeof value === 'symbol' ? value.toString() : String(value);
+        }
+        catch (_error) {
+            description = Object.prototype.toString.call(value);
+        }
+        super(`No match branch for value: ${description}`);
+        this.name = 'MatchError';
+        this.value = value;
+    }
+}
+
+/** Fordítási hiba jelzése: az exhaustive() hívásakor ezek az esetek nincsenek lekezelve */
+interface UnhandledCases<T> {
+    unhandled: T;
+}
+
+/**
+ * Típusos mintaillesztés (a T a még le nem kezelt esetek típusa, az R a handler-ek visszatérési típusa)
+ */
+export interface Match<T, R> {
+    /** type guard ág (a handler a szűkített típust kapja, a további ágakból kiesik) */
+    with<N extends T, U>(guard: (value: T) => value is N, handler: (value: N) => U): Match<Exclude<T, N>, R | U>;
+    /** literál ág (SameValueZero egyezés: 1 és '1' különbözik, NaN illeszkedik NaN-ra, objektum/symbol referencia szerint) */
+    with<const P extends T, U>(pattern: P, handler: (value: P) => U): Match<Exclude<T, P>, R | U>;
+    /** predikátum ág (nem szűkít) */
+    when<U>(predicate: (value: T) => boolean, handler: (value: T) => U): Match<T, R | U>;
+    /** alapértelmezett ág */
+    otherwise<U>(handler: (value: T) => U): R | U;
+    /** minden eset le van kezelve (ha nem, fordítási hiba; futásidőben illeszkedés hiányában MatchError) */
+    exhaustive: [T] extends [never] ? () => R : (unhandledCases: UnhandledCases<T>) => R;
+}
+
+/**
+ * Típusos switch (a switching/condition típusos, lusta megfelelője)
+ * - literál, predikátum és type guard ágak, az első illeszkedő ág handler-e fut le
+ * - a handler-ek a szűkített típust kapják
+ * - exhaustive() fordítási hibát ad, ha egy union tag nincs lekezelve
+ * @param value - vizsgált érték
+ * @return {Match}
+ * @example
+ *  type Shape = { kind: 'circle', r: number } | { kind: 'rect', w: number, h: number };
+ *  const area = match(shape)
+ *      .with((s): s is Extract<Shape, { kind: 'circle' }> => s.kind === 'circle', (s) => Math.PI * s.r ** 2)
+ *      .with((s): s is Extract<Shape, { kind: 'rect' }> => s.kind === 'rect', (s) => s.w * s.h)
+ *      .exhaustive();
+ * @example
+ *  const label = match(status as 200 | 404 | 500)
+ *      .with(200, () => 'OK')
+ *      .with(404, () => 'Not found')
+ *      .exhaustive(); // fordítási hiba: az 500 nincs lekezelve
+ * @example
+ *  const control = match(key)
+ *      .with('W', () => 'accelerate')
+ *      .when((k) => k.startsWith('Arrow'), () => 'steer')
+ *      .otherwise(() => null);
+ */
+export const match = function<T>(value: T): Match<T, never> {
+    const create = function(matched: boolean, result: unknown): unknown {
+        const branch = (test: (item: unknown) => boolean, handler: (item: unknown) => unknown) => (
+            matched || !test(value) ? create(matched, result) : create(true, handler(value))
+        );
+        return {
+            with: (pattern: unknown, handler: (item: unknown) => unknown) => branch(
+                isFunction(pattern) ? pattern : (item) => item === pattern || (item !== item && pattern !== pattern),
+                handler
+            ),
+            when: branch,
+            otherwise: (handler: (item: unknown) => unknown) => (matched ? result : handler(value)),
+            exhaustive: () => {
+                if (!matched) {
+                    throw new MatchError(value);
+                }
+                return result;
+            },
+        };
+    };
+    return create(false, undefined) as Match<T, never>;
 };
 
 /**
@@ -123,9 +275,57 @@ export const delay = function<T>(timeout: number, resolvedValue: T = null!): Pro
     });
 };
 
+/**
+ * Promise szekvencia megszakításakor dobott hiba
+ * @property step - a megszakításkor futó (vagy következő) lépés indexe
+ * @property reason - az AbortSignal reason-je
+ */
+export class SequenceAbortError extends Error {
+    public readonly step: number;
+    public readonly reason: unknown;
+
+    constructor(step: number, reason?: unknown) {
+        super(`Promise sequence aborted at step ${step}`);
+        this.name = 'SequenceAbortError';
+        this.step = step;
+        this.reason = reason;
+    }
+}
+
+/**
+ * Promise factory lefuttatása úgy, hogy az AbortSignal megszakíthassa
+ * @param factory - promise factory
+ * @param signal - megszakítást jelző signal
+ * @param step - lépés indexe (a hibában jelenik meg)
+ * @return {Promise}
+ */
+const abortableStep = function<T>(
+    factory: () => Promise<T>, signal: AbortSignal | undefined, step: number
+): Promise<T> {
+    if (!signal) {
+        // a szinkron hiba is rejectként jelenjen meg
+        return new Promise<T>((resolve) => resolve(factory()));
+    }
+    if (signal.aborted) {
+        return Promise.reject(new SequenceAbortError(step, signal.reason));
+    }
+    return new Promise((resolve, reject) => {
+        const onAbort = (): void => {
+            reject(new SequenceAbortError(step, signal.reason));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        new Promise<T>((innerResolve) => innerResolve(factory())).then(
+            resolve, reject
+        ).finally(
+            () => signal.removeEventListener('abort', onAbort)
+        );
+    });
+};
+
 /**
  * Promise-ok szekvenciális végrehajtása (Promise.all mintájára)
  * @param promiseFactories - promise-t visszaadó függvények tömbje
+ * @param signal - megszakítást jelző signal (megszakításkor SequenceAbortError-ral rejectel)
  * @return {Promise}
  * @example
  *  promiseSequence([
@@ -137,13 +337,23 @@ export const delay = function<T>(timeout: number, resolvedValue: T = null!): Pro
  *  ).catch(
  *      (error) => console.warn(error)
  *  );
+ * @example
+ *  const controller = new AbortController();
+ *  promiseSequence([
+ *      (_value, signal) => fetch(url1, { signal }),
+ *      (_value, signal) => fetch(url2, { signal })
+ *  ], controller.signal).catch(
+ *      (error) => error instanceof SequenceAbortError && console.info(error.step)
+ *  );
+ *  controller.abort();
  */
 export const promiseSequence = function<T>(
-    promiseFactories: ((previousValue: T) => Promise<T>)[]
+    promiseFactories: ((previousValue: T, signal?: AbortSignal) => Promise<T>)[],
+    signal?: AbortSignal
 ): Promise<T> {
     return promiseFactories.reduce(
-        (acc: Promise<any>, curr: (value: T) => Promise<T>) => acc.then(
-            (value: T) => curr(value)
+        (acc: Promise<any>, curr: (value: T, signal?: AbortSignal) => Promise<T>, index: number) => acc.then(
+            (value: T) => abortableStep(() => curr(value, signal), signal, index)
         ),
         Promise.resolve()
     );
@@ -152,6 +362,7 @@ export const promiseSequence = function<T>(
 /**
  * Promise-ok szekvenciális lefuttatása
  * @param {array} factories - promise factory-k tömbje
+ * @param signal - megszakítást jelző signal (megszakításkor SequenceAbortError-ral rejectel)
  * @return {Promise} visszatérési értékek tömbje
  * @exampe
  *  promiseSequenceAll([
@@ -165,16 +376,17 @@ export const promiseSequence = function<T>(
  *  );
  */
 export const promiseSequenceAll = function<T>(
-    factories: ((previousValue: T | null) => Promise<T | null>)[]
+    factories: ((previousValue: T | null, signal?: AbortSignal) => Promise<T | null>)[],
+    signal?: AbortSignal
 ): Promise<(T | null)[]> {
     let result: Promise<T | null> = Promise.resolve(null);
     const values: (T | null)[] = [];
     factories.forEach(
-        (factory) => {
+        (factory, index) => {
             result = result.then(
                 (currentValue: T | null) => {
                     values.push(currentValue);
-                    return factory(currentValue);
+                    return abortableStep(() => factory(currentValue, signal), signal, index);
                 }
             );
         }
@@ -191,8 +403,8 @@ export const promiseSequenceAll = function<T>(
 /**
  * Promise-ok szekvenciális lefuttatása (Promise.allSettled mintájára)
  * @param factories - promise factory-k tömbje
+ * @param signal - megszakítást jelző signal (megszakításkor SequenceAbortError-ral rejectel)
  * @return visszatérési értékek tömbje
- * @todo megszakítási lehetöség
  * @exampe
  *   promiseSettledSequence<number>([
  *       ()     => { return Promise.resolve(1); },
@@ -211,21 +423,25 @@ export const promiseSequenceAll = function<T>(
  *   );
  */
 export const promiseSettledSequence = function<T>(
-    factories: ((previousValue: T) => Promise<T>)[]
+    factories: ((previousValue: T, signal?: AbortSignal) => Promise<T>)[],
+    signal?: AbortSignal
 ): Promise<PromiseSettledResult<T>[]> {
     let result = Promise.resolve(null as T);
     const values: PromiseSettledResult<T>[] = [];
     factories.forEach(
-        (factory) => {
+        (factory, index) => {
             result = result.then(
                 (currentValue: T) => {
                     if (currentValue !== undefined) {
                         values.push({ status: 'fulfilled', value: currentValue });
                     }
-                    return factory(currentValue);
+                    return abortableStep(() => factory(currentValue, signal), signal, index);
                 }
             ).catch(
                 (currentReason: T) => {
+                    if (currentReason instanceof SequenceAbortError) {
+                        throw currentReason;
+                    }
                     values.push({ status: 'rejected', reason: currentReason });
                 }
             ) as Promise<Awaited<T>>;
@@ -241,6 +457,9 @@ export const promiseSettledSequence = function<T>(
         }
     ).catch(
         (currentReason: T) => {
+            if (currentReason instanceof SequenceAbortError) {
+                throw currentReason;
+            }
             values.shift();
             values.push({ status: 'rejected', reason: currentReason });
             return values;
@@ -248,42 +467,283 @@ export const promiseSettledSequence = function<T>(
     );
 };
 
+export interface PromisePoolProgress<T> {
+    /** befejeződött factory-k száma */
+    completed: number;
+    /** összes factory száma */
+    total: number;
+    /** az éppen befejeződött factory indexe */
+    index: number;
+    /** az éppen befejeződött factory eredménye */
+    result: PromiseSettledResult<T>;
+}
+
+export interface PromisePoolOptions<T> {
+    /** egyszerre futó promise-ok maximális száma (pozitív egész) */
+    concurrency?: number;
+    /** megszakítást jelző signal (megszakításkor SequenceAbortError-ral rejectel) */
+    signal?: AbortSignal;
+    /** minden factory befejeződésekor lefutó callback */
+    onProgress?: (progress: PromisePoolProgress<T>) => void;
+}
+
 /**
- * Fetch újrapróbalása amíg nem 2xx a response status code, legfeljebb times alkalommal
+ * Promise factory-k futtatása korlátozott párhuzamossággal (promisePool és promiseSettledPool közös része)
+ * @param factories - promise factory-k tömbje
+ * @param options - beállítások
+ * @param failFast - az első rejectnél leálljon-e
+ * @return eredmények tömbje (a factory-k sorrendjében)
+ * @throws {RangeError} ha a concurrency nem pozitív egész (rejectel vele)
+ */
+const runPool = function<T>(
+    factories: ((signal?: AbortSignal) => Promise<T>)[],
+    { concurrency = 4, signal, onProgress }: PromisePoolOptions<T>,
+    failFast: boolean
+): Promise<PromiseSettledResult<T>[]> {
+    return new Promise((resolve, reject) => {
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new RangeError(`concurrency must be a positive integer, got ${concurrency}`);
+        }
+        const results: PromiseSettledResult<T>[] = new Array(factories.length);
+        let next = 0;
+        let completed = 0;
+        let stopped = false;
+
+        const launch = (): void => {
+            if (stopped || next >= factories.length) {
+                return;
+            }
+            const index = next++;
+            abortableStep(() => factories[index](signal), signal, index).then(
+                (value: T) => {
+                    results[index] = { status: 'fulfilled', value };
+                },
+                (reason: unknown) => {
+                    if (failFast || reason instanceof SequenceAbortError) {
+                        stopped = true;
+                        reject(reason);
+                    }
+                    results[index] = { status: 'rejected', reason };
+                }
+            ).then(
+                () => {
+                    if (stopped) {
+                        return;
+                    }
+                    completed++;
+                    onProgress?.({ completed, total: factories.length, index, result: results[index] });
+                    if (completed === factories.length) {
+                        resolve(results);
+                    }
+                    else {
+                        launch();
+                    }
+                }
+            );
+        };
+
+        if (factories.length === 0) {
+            resolve(results);
+        }
+        times(Math.min(concurrency, factories.length)).forEach(launch);
+    });
+};
+
+/**
+ * Promise-ok futtatása korlátozott párhuzamossággal (Promise.all mintájára, az első rejectnél leáll)
+ * @param factories - promise factory-k tömbje
+ * @param options - beállítások (concurrency, signal, onProgress)
+ * @return visszatérési értékek tömbje (a factory-k sorrendjében)
+ * @example
+ *  promisePool(
+ *      files.map((file) => (signal) => fetch(uploadUrl, { method: 'POST', body: file, signal })),
+ *      { concurrency: 3, onProgress: ({ completed, total }) => progressBar(completed / total) }
+ *  ).then(
+ *      (responses) => console.info(responses)
+ *  );
+ */
+export const promisePool = function<T>(
+    factories: ((signal?: AbortSignal) => Promise<T>)[],
+    options: PromisePoolOptions<T> = { }
+): Promise<T[]> {
+    return runPool(factories, options, true).then(
+        (results: PromiseSettledResult<T>[]) => results.map(
+            (result) => (result as PromiseFulfilledResult<T>).value
+        )
+    );
+};
+
+/**
+ * Promise-ok futtatása korlátozott párhuzamossággal (Promise.allSettled mintájára)
+ * @param factories - promise factory-k tömbje
+ * @param options - beállítások (concurrency, signal, onProgress)
+ * @return visszatérési értékek tömbje (a factory-k sorrendjében)
+ */
+export const promiseSettledPool = function<T>(
+    factories: ((signal?: AbortSignal) => Promise<T>)[],
+    options: PromisePoolOptions<T> = { }
+): Promise<PromiseSettledResult<T>[]> {
+    return runPool(factories, options, false);
+};
+
+export interface RetryInfo {
+    /** a sikertelen próbálkozás sorszáma (1-től) */
+    attempt: number;
+    /** a kapott response (ha volt) */
+    response?: Response;
+    /** a fetch által dobott hiba (ha volt) */
+    error?: unknown;
+}
+
+export interface TryRequestParams {
+    /** próbálkozások maximális száma */
+    times: number;
+    url: string;
+    options?: RequestInit;
+    /** egy próbálkozás időkorlátja (ms), 0 esetén nincs */
+    timeout?: number;
+    /** várakozás az első újrapróbálás előtt (ms) */
+    retryDelay?: number;
+    /** várakozás szorzója próbálkozásonként */
+    backoffFactor?: number;
+    /** várakozás felső korlátja (ms), a Retry-After headerre is vonatkozik */
+    maxRetryDelay?: number;
+    /** véletlenszerű eltérés a várakozásban */
+    jitter?: boolean;
+    /** újrapróbálható-e a sikertelen próbálkozás */
+    retryOn?: (info: RetryInfo) => boolean;
+    /** minden újrapróbálás előtt lefutó callback */
+    onRetry?: (info: RetryInfo & { delay: number }) => void;
+}
+
+/**
+ * Alapértelmezett újrapróbálási feltétel (hálózati hiba, timeout, 408, 429, 5xx)
+ * @param info - sikertelen próbálkozás adatai
+ * @return {boolean}
+ */
+const defaultRetryOn = function({ response }: RetryInfo): boolean {
+    if (response) {
+        return response.status === 408 || response.status === 429 || response.status >= 500;
+    }
+    return true;
+};
+
+/**
+ * Retry-After header értelmezése (másodpercek vagy HTTP dátum)
+ * @param response
+ * @return várakozás (ms) vagy null, ha nincs (érvényes) header
+ */
+const parseRetryAfter = function(response?: Response): number | null {
+    const header = response?.headers.get('Retry-After');
+    if (!header) {
+        return null;
+    }
+    if (/^\d+$/.test(header.trim())) {
+        return Number(header) * 1000;
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Fetch újrapróbálása amíg nem 2xx a response status code, legfeljebb times alkalommal
+ * (exponenciálisan növekvő várakozással, próbálkozásonkénti timeout-tal)
  * @param {Object} param
- * @return {Promise}
+ * @return {Promise} sikertelenség esetén az utolsó Response-szal vagy hibával rejectel
+ * @example
+ *  tryRequest({
+ *      times: 5,
+ *      url: '/api/data',
+ *      timeout: 3000,
+ *      retryOn: ({ response }) => !response || response.status === 503,
+ *      onRetry: ({ attempt, response, error }) => console.warn(attempt, response?.status ?? error)
+ *  });
  */
 export const tryRequest = function({
-    times, url, options = { }
-}: {
-    times: number, url: string, options?: RequestInit
-}): Promise<Response> {
-    const repeat = (response: Response): Promise<any> | Response => {
-        if (response.ok) {
-            return response;
-        }
-        else {
+    times,
+    url,
+    options = { },
+    timeout = 0,
+    retryDelay = 300,
+    backoffFactor = 2,
+    maxRetryDelay = 10000,
+    jitter = true,
+    retryOn = defaultRetryOn,
+    onRetry
+}: TryRequestParams): Promise<Response> {
+    const userSignal = options.signal;
+
+    const attemptFetch = (): Promise<Response> => {
+        if (!timeout) {
             return fetch(url, options);
         }
+        const controller = new AbortController();
+        const onAbort = (): void => controller.abort(userSignal?.reason);
+        if (userSignal?.aborted) {
+            onAbort();
+        }
+        userSignal?.addEventListener('abort', onAbort, { once: true });
+        const timer = window.setTimeout(
+            () => controller.abort(new DOMException(`Request timed out after ${timeout}ms`, 'TimeoutError')),
+            timeout
+        );
+        return fetch(url, { ...options, signal: controller.signal }).finally(
+            () => {
+                window.clearTimeout(timer);
+                userSignal?.removeEventListener('abort', onAbort);
+            }
+        );
     };
 
-    return promiseSequence<Response>([
-        () => fetch(url, options),
-        ...new Array(times - 1).fill(repeat)
-    ]).then(
-        (response: Response) => {
-            if (response.ok) {
-                return response;
+    const getRetryDelay = (attempt: number, response?: Response): number => {
+        const retryAfter = parseRetryAfter(response);
+        if (retryAfter !== null) {
+            return Math.min(maxRetryDelay, retryAfter);
+        }
+        const base = Math.min(maxRetryDelay, retryDelay * backoffFactor ** (attempt - 1));
+        return jitter ? base / 2 + Math.random() * base / 2 : base;
+    };
+
+    /** várakozás az újrapróbálás előtt, megszakításkor azonnal rejectel */
+    const backoff = (wait: number): Promise<void> => new Promise((resolve, reject) => {
+        if (userSignal?.aborted) {
+            reject(userSignal.reason);
+            return;
+        }
+        const onAbort = (): void => {
+            window.clearTimeout(timer);
+            reject(userSignal?.reason);
+        };
+        const timer = window.setTimeout(
+            () => {
+                userSignal?.removeEventListener('abort', onAbort);
+                resolve();
+            },
+            wait
+        );
+        userSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const run = (attempt: number): Promise<Response> => attemptFetch().then(
+        (response: Response): RetryInfo => ({ attempt, response }),
+        (error: unknown): RetryInfo => ({ attempt, error })
+    ).then(
+        (info: RetryInfo) => {
+            if (info.response?.ok) {
+                return info.response;
             }
-            else {
-                throw response;
+            if (attempt >= times || userSignal?.aborted || !retryOn(info)) {
+                throw info.response ?? info.error;
             }
-        }
-    ).catch(
-        (error: Error) => {
-            throw error;
+            const wait = getRetryDelay(attempt, info.response);
+            onRetry?.({ ...info, delay: wait });
+            return backoff(wait).then(
+                () => run(attempt + 1)
+            );
         }
     );
+
+    return run(1);
 };
 
 /**
@@ -324,20 +784,124 @@ export enum SortDirection {
     desc = 'desc'
 }
 
+/** Intl.Collator példányok locale és beállítások szerint (létrehozásuk drága) */
+const collators = new Map<string, Intl.Collator>();
+
+/**
+ * Gyorsítótárazott Intl.Collator
+ * @param locales - locale(-ok)
+ * @param options - collator beállítások
+ * @return
+ */
+const getCollator = function(locales: string | string[] = 'hu', options: Intl.CollatorOptions = { }): Intl.Collator {
+    const id = JSON.stringify([locales, options]);
+    if (!collators.has(id)) {
+        collators.set(id, new Intl.Collator(locales, options));
+    }
+    return collators.get(id) as Intl.Collator;
+};
+
+export interface TypedCompareOptions {
+    /** természetes rendezés: a számjegysorozatok számként hasonlítódnak ("file2" < "file10") */
+    natural?: boolean;
+    /** szövegek összehasonlításának locale-ja (alapértelmezetten 'hu') */
+    locale?: string | string[];
+    /** kis-nagybetű és ékezet érzékenység */
+    sensitivity?: Intl.CollatorOptions['sensitivity'];
+}
+
+/**
+ * Típusok sorrendje vegyes típusú értékek összehasonlításához
+ * @param value
+ * @return
+ */
+const typeRank = function(value: unknown): number {
+    return condition([
+        [typeof value === 'boolean', 0],
+        [typeof value === 'number' || typeof value === 'bigint', 1],
+        [value instanceof Date, 2],
+        [typeof value === 'string', 3],
+        [value === null, 5],
+        [value === undefined, 6],
+        [true, 4]
+    ]);
+};
+
+/**
+ * Típusfüggő összehasonlítás megadott collator-ral (compareTyped és createComparator közös része)
+ * @param a
+ * @param b
+ * @param collator
+ * @return
+ */
+const compareTypedWith = function(a: unknown, b: unknown, collator: Intl.Collator): number {
+    const rankA = typeRank(a);
+    const rankB = typeRank(b);
+    if (rankA !== rankB) {
+        return rankA < rankB ? -1 : 1;
+    }
+    if (typeof a === 'string') {
+        return Math.sign(collator.compare(a, b as string));
+    }
+    if (rankA > 2) {
+        return 0;
+    }
+    const valueA = (a instanceof Date ? a.getTime() : a) as number;
+    const valueB = (b instanceof Date ? b.getTime() : b) as number;
+    const invalidA = Number.isNaN(valueA);
+    const invalidB = Number.isNaN(valueB);
+    return condition([
+        [invalidA || invalidB, Number(invalidA) - Number(invalidB)],
+        [valueA > valueB, 1],
+        [valueA < valueB, -1],
+        [true, 0]
+    ]);
+};
+
+/**
+ * Típusfüggő összehasonlítás
+ * - Date: időpont szerint (érvénytelen dátum a végére)
+ * - szám: NaN a végére
+ * - szöveg: collator-ral, alapértelmezetten természetes sorrendben ("9" < "10")
+ * - eltérő típusok: boolean < szám < Date < szöveg < egyéb < null < undefined
+ * @param a
+ * @param b
+ * @param options - beállítások
+ * @return 1 | 0 | -1
+ * @example
+ *  compareTyped('file2', 'file10') => -1
+ *  compareTyped(new Date(2020, 0), new Date(2019, 0)) => 1
+ */
+export const compareTyped = function(
+    a: unknown, b: unknown, { natural = true, locale = 'hu', sensitivity }: TypedCompareOptions = { }
+): number {
+    return compareTypedWith(a, b, getCollator(locale, { numeric: natural, sensitivity }));
+};
+
 /**
  * Sorrendezést definiáló függvény (Array.prototype.sort metódushoz)
  * @param {*} a - elem
  * @param {*} b - elem
  * @param {'asc'|'desc'} [order='asc'] - sorrend iránya
+ * @param [typed=false] - típusfüggő összehasonlítás (compareTyped), opcionálisan annak beállításaival
  * @return 1 | 0 | -1
  * @example
  *  array.sort(
  *      (a, b) => sortDescriptor(order(a), order(b), SortDirection.desc)
  *  );
+ *  dates.sort(
+ *      (a, b) => sortDescriptor(a, b, SortDirection.asc, true)
+ *  );
  */
-export const sortDescriptor = function<T>(a: T, b: T, order: SortDirection = SortDirection.asc): number {
+export const sortDescriptor = function<T>(
+    a: T, b: T, order: SortDirection = SortDirection.asc, typed: boolean | TypedCompareOptions = false
+): number {
+    if (typed) {
+        const result = compareTyped(a, b, typed === true ? { } : typed);
+        return order === SortDirection.desc ? 0 - result : result;
+    }
     if (typeof a === 'string' && typeof b === 'string') {
-        const coll = new Intl.Collator('hu').compare(a, b);
+        const coll = getCollator('hu').compare(a, b);
         return condition([
             [order === SortDirection.asc, coll],
             [order === SortDirection.desc, -coll],
@@ -362,6 +926,8 @@ export const sortDescriptor = function<T>(a: T, b: T, order: SortDirection = Sor
  * @param {*} a - elem
  * @param {*} b - elem
  * @param {'asc'|'desc'} [order='asc'] - sorrend iránya
+ * @param {'first'|'last'} [unlisted] - a listában nem szereplő elemek helye az iránytól függetlenül
+ *  (ha nincs megadva, a lista elé kerülnek asc, mögé desc irány esetén)
  * @return 1 | 0 | -1
  * @example
  *  array.sort(
@@ -369,8 +935,17 @@ export const sortDescriptor = function<T>(a: T, b: T, order: SortDirection = Sor
  *  );
  */
 export const sortDescriptorByList = function<T>(
-    a: T, b: T, list: T[], order: SortDirection = SortDirection.asc
+    a: T, b: T, list: T[], order: SortDirection = SortDirection.asc, unlisted?: 'first' | 'last'
 ): number {
+    if (unlisted) {
+        const missing = Number(!list.includes(a)) - Number(!list.includes(b));
+        if (missing !== 0) {
+            return unlisted === 'last' ? missing : 0 - missing;
+        }
+        if (!list.includes(a)) {
+            return 0;
+        }
+    }
     return condition([
         [order === SortDirection.asc && list.indexOf(a) > list.indexOf(b), 1],
         [order === SortDirection.asc && list.indexOf(a) < list.indexOf(b), -1],
@@ -382,6 +957,87 @@ export const sortDescriptorByList = function<T>(
     ]) as number;
 };
 
+export interface ComparatorOptions {
+    /** szövegek összehasonlításának locale-ja (alapértelmezetten 'hu') */
+    locale?: string | string[];
+    /** számok szövegen belüli numerikus összehasonlítása ("2" < "10") */
+    numeric?: boolean;
+    /** kis-nagybetű és ékezet érzékenység */
+    sensitivity?: Intl.CollatorOptions['sensitivity'];
+    /** null és undefined értékek helye az iránytól függetlenül (alapértelmezetten 'last') */
+    nulls?: 'first' | 'last';
+    /** típusfüggő összehasonlítás (compareTyped), ekkor a numeric alapértelmezetten true */
+    typed?: boolean;
+}
+
+export interface SortKey<T> {
+    /** rendezés alapja: property vagy kiszámított érték */
+    key: keyof T | ((item: T) => unknown);
+    /** rendezés iránya */
+    order?: SortDirection;
+    /** null és undefined értékek helye (felülírja a közös beállítást) */
+    nulls?: 'first' | 'last';
+}
+
+/**
+ * Több kulcs szerinti összehasonlító függvény létrehozása (Array.prototype.sort metódushoz)
+ * A kulcsok sorban döntenek: a következő kulcs csak egyezés esetén számít.
+ * @param keys - property-k, kiszámító függvények vagy SortKey objektumok
+ * @param options - közös beállítások
+ * @return összehasonlító függvény
+ * @example
+ *  rows.sort(createComparator<Row>([
+ *      'team',
+ *      { key: 'points', order: SortDirection.desc },
+ *      { key: (row) => row.name, nulls: 'first' }
+ *  ], { numeric: true }));
+ */
+export const createComparator = function<T>(
+    keys: (keyof T | ((item: T) => unknown) | SortKey<T>)[],
+    { locale = 'hu', numeric, sensitivity, nulls = 'last', typed = false }: ComparatorOptions = { }
+): (a: T, b: T) => number {
+    const collator = getCollator(locale, { numeric: numeric ?? (typed || undefined), sensitivity });
+    const sortKeys = keys.map(
+        (key) => (typeof key === 'object' && key !== null ? key : { key }) as SortKey<T>
+    );
+    const accessors = sortKeys.map(
+        ({ key }) => (typeof key === 'function' ? key : (item: T) => item[key])
+    );
+    const compareValues = function(a: unknown, b: unknown): number {
+        if (typed) {
+            return compareTypedWith(a, b, collator);
+        }
+        if (typeof a === 'string' && typeof b === 'string') {
+            return collator.compare(a, b);
+        }
+        return condition([
+            [(a as number) > (b as number), 1],
+            [(a as number) < (b as number), -1],
+            [true, 0]
+        ]);
+    };
+    return function(a: T, b: T): number {
+        for (let i = 0; i < sortKeys.length; i++) {
+            const { order = SortDirection.asc, nulls: keyNulls = nulls } = sortKeys[i];
+            const valueA = accessors[i](a);
+            const valueB = accessors[i](b);
+            const missingA = valueA === null || valueA === undefined;
+            const missingB = valueB === null || valueB === undefined;
+            let result: number;
+            if (missingA || missingB) {
+                result = (Number(missingA) - Number(missingB)) * (keyNulls === 'last' ? 1 : -1);
+            }
+            else {
+                result = compareValues(valueA, valueB) * (order === SortDirection.desc ? -1 : 1);
+            }
+            if (result !== 0) {
+                return result;
+            }
+        }
+        return 0;
+    };
+};
+
 /**
  * Százalékos érték kiszámítása
  * @param {number} value - érték
@@ -551,6 +1207,177 @@ export const arrayToMap = function<T>(array: T[]): Map<number, T> {
     );
 };
 
+/**
+ * Az első count elem a rendezés szerint, a teljes tömb rendezése nélkül
+ * (rendezett puffer bináris beszúrással, egyezés esetén az eredeti sorrend marad)
+ * @param fromArray - bemeneti tömb
+ * @param count - elemek száma
+ * @param compare - összehasonlító függvény
+ * @return rendezett tömb
+ */
+const selectTop = function<T>(fromArray: T[], count: number, compare: (a: T, b: T) => number): T[] {
+    const result: T[] = [];
+    if (count <= 0) {
+        return result;
+    }
+    fromArray.forEach(
+        (item) => {
+            if (result.length === count && compare(item, result[count - 1]) >= 0) {
+                return;
+            }
+            let low = 0;
+            let high = result.length;
+            while (low < high) {
+                const middle = (low + high) >>> 1;
+                if (compare(item, result[middle]) < 0) {
+                    high = middle;
+                }
+                else {
+                    low = middle + 1;
+                }
+            }
+            result.splice(low, 0, item);
+            if (result.length > count) {
+                result.pop();
+            }
+        }
+    );
+    return result;
+};
+
+/** Csoportosítás alapja: property vagy kiszámított érték */
+export type GroupKey<T> = keyof T | ((item: T) => unknown);
+
+/** Több szintű csoportosítás eredménye (az utolsó szinten az elemek tömbje) */
+export interface NestedGroups<T> {
+    [group: string]: NestedGroups<T> | T[];
+}
+
+/**
+ * Csoportosítás alapjából érték kiszámító függvény
+ * @param key
+ * @return
+ */
+const groupAccessor = function<T>(key: GroupKey<T>): (item: T) => unknown {
+    return typeof key === 'function' ? key : (item: T) => item[key];
+};
+
+/**
+ * Csoportok objektummá alakítása (a csoportértékek string-gé alakulnak)
+ * @param groups - csoportérték => érték
+ * @param transform - érték átalakítása
+ * @return
+ * @throws {TypeError} ha eltérő csoportértékek azonos string-gé alakulnak (pl. 1 és '1')
+ */
+const groupsToObject = function<V, R>(groups: Map<unknown, V>, transform: (value: V) => R): Record<string, R> {
+    const result: Record<string, R> = { };
+    groups.forEach(
+        (value, group) => {
+            const property = String(group);
+            if (Object.prototype.hasOwnProperty.call(result, property)) {
+                throw new TypeError(`Different group values convert to the same property name: ${property}`);
+            }
+            result[property] = transform(value);
+        }
+    );
+    return result;
+};
+
+/**
+ * Property null és undefined nélküli értékei
+ * @param items
+ * @param propName
+ * @return
+ */
+const presentValues = function<T>(items: T[], propName: keyof T): T[keyof T][] {
+    return items.map(
+        (item) => item[propName]
+    ).filter(
+        (value) => value !== null && value !== undefined
+    );
+};
+
+/**
+ * Aggregáló függvények (ArrayOfObjects.aggregate és ArrayOfObjects.pivot számára)
+ * A sum, avg, min és max a null és undefined értékeket kihagyja.
+ * Mindegyik egy csoport elemeiből számol értéket, egyedi aggregáló a (items: T[]) => R alakú függvény.
+ * @example
+ *  ArrayOfObjects.aggregate(rows, 'team', {
+ *      points: Aggregate.sum('points'),
+ *      best: Aggregate.max('points'),
+ *      players: Aggregate.count()
+ *  });
+ */
+export const Aggregate = {
+
+    /**
+     * Elemek száma
+     * @return aggregáló függvény
+     */
+    count: function<T>(): (items: T[]) => number {
+        return (items: T[]) => items.length;
+    },
+
+    /**
+     * Property értékeinek összege
+     * @param propName - összegzett property
+     * @return aggregáló függvény
+     */
+    sum: function<T>(propName: keyof T): (items: T[]) => number {
+        return (items: T[]) => presentValues(items, propName).reduce(
+            (acc: number, value) => acc + Number(value),
+            0
+        );
+    },
+
+    /**
+     * Property értékeinek átlaga (a hiányzó értékek nem számítanak bele)
+     * @param propName - átlagolt property
+     * @return aggregáló függvény (értékek hiányában null)
+     */
+    avg: function<T>(propName: keyof T): (items: T[]) => number | null {
+        return (items: T[]) => {
+            const count = presentValues(items, propName).length;
+            return count > 0 ? Aggregate.sum<T>(propName)(items) / count : null;
+        };
+    },
+
+    /**
+     * Property legkisebb értéke (típusfüggő összehasonlítással, így Date és string is lehet)
+     * @param propName - vizsgált property
+     * @return aggregáló függvény (értékek hiányában null)
+     */
+    min: function<T>(propName: keyof T): (items: T[]) => T[keyof T] | null {
+        return (items: T[]) => presentValues(items, propName).reduce<T[keyof T] | null>(
+            (acc, value) => (acc === null || compareTyped(value, acc) < 0 ? value : acc),
+            null
+        );
+    },
+
+    /**
+     * Property legnagyobb értéke (típusfüggő összehasonlítással, így Date és string is lehet)
+     * @param propName - vizsgált property
+     * @return aggregáló függvény (értékek hiányában null)
+     */
+    max: function<T>(propName: keyof T): (items: T[]) => T[keyof T] | null {
+        return (items: T[]) => presentValues(items, propName).reduce<T[keyof T] | null>(
+            (acc, value) => (acc === null || compareTyped(value, acc) > 0 ? value : acc),
+            null
+        );
+    },
+
+    /**
+     * Egyedi reducer
+     * @param reducer - Array.prototype.reduce callback
+     * @param initial - kezdőérték
+     * @return aggregáló függvény
+     */
+    reduce: function<T, R>(reducer: (acc: R, item: T, index: number) => R, initial: R): (items: T[]) => R {
+        return (items: T[]) => items.reduce(reducer, initial);
+    },
+
+};
+
 /**
  * Objektumokból álló tömbök kezelése
  */
@@ -647,12 +1474,15 @@ export const ArrayOfObjects = {
      * @param {array} fromArray - bemeneti tömb
      * @param {string} propName - rendezés alapja
      * @param {string} order - rendezés iránya
+     * @param typed - típusfüggő összehasonlítás (ld. sortDescriptor)
      * @return {array} létrehozott tömb
      */
-    sort: function<T>(fromArray: T[], propName: keyof T, order: SortDirection = SortDirection.asc): T[] {
+    sort: function<T>(
+        fromArray: T[], propName: keyof T, order: SortDirection = SortDirection.asc, typed: boolean | TypedCompareOptions = false
+    ): T[] {
         return fromArray.sort(
             (item1, item2) => sortDescriptor(
-                item1[propName], item2[propName], order
+                item1[propName], item2[propName], order, typed
             )
         );
     },
@@ -662,16 +1492,197 @@ export const ArrayOfObjects = {
      * @param {array} fromArray - bemeneti tömb
      * @param {function} calc - rendezés alapja
      * @param {string} order - rendezés iránya
+     * @param typed - típusfüggő összehasonlítás (ld. sortDescriptor)
      * @return {array} létrehozott tömb
      */
-    sortByValue: function<T, U>(fromArray: T[], calc: (value: T) => U, order: SortDirection = SortDirection.asc): T[] {
+    sortByValue: function<T, U>(
+        fromArray: T[], calc: (value: T) => U, order: SortDirection = SortDirection.asc, typed: boolean | TypedCompareOptions = false
+    ): T[] {
         return fromArray.sort(
             (item1, item2) => sortDescriptor(
-                calc(item1), calc(item2), order
+                calc(item1), calc(item2), order, typed
             )
         );
     },
 
+    /**
+     * Sorrendezés property alapján (a sort másolatot visszaadó változata, a bemeneti tömb nem változik)
+     * @param {array} fromArray - bemeneti tömb
+     * @param {string} propName - rendezés alapja
+     * @param {string} order - rendezés iránya
+     * @param typed - típusfüggő összehasonlítás (ld. sortDescriptor)
+     * @return {array} létrehozott tömb
+     */
+    toSorted: function<T>(
+        fromArray: T[], propName: keyof T, order: SortDirection = SortDirection.asc, typed: boolean | TypedCompareOptions = false
+    ): T[] {
+        return ArrayOfObjects.sort([...fromArray], propName, order, typed);
+    },
+
+    /**
+     * Sorrendezés kiszámított érték alapján (a sortByValue másolatot visszaadó változata, a bemeneti tömb nem változik)
+     * @param {array} fromArray - bemeneti tömb
+     * @param {function} calc - rendezés alapja
+     * @param {string} order - rendezés iránya
+     * @param typed - típusfüggő összehasonlítás (ld. sortDescriptor)
+     * @return {array} létrehozott tömb
+     */
+    toSortedByValue: function<T, U>(
+        fromArray: T[], calc: (value: T) => U, order: SortDirection = SortDirection.asc, typed: boolean | TypedCompareOptions = false
+    ): T[] {
+        return ArrayOfObjects.sortByValue([...fromArray], calc, order, typed);
+    },
+
+    /**
+     * Sorrendezés megadott értéklista alapján (másolt tömböt ad vissza)
+     * @param {array} fromArray - bemeneti tömb
+     * @param {string} propName - rendezés alapja
+     * @param {array} list - a property értékeinek sorrendje
+     * @param {string} order - rendezés iránya
+     * @param {'first'|'last'} unlisted - a listában nem szereplő elemek helye
+     * @return {array} létrehozott tömb
+     * @example
+     *  ArrayOfObjects.toSortedByList(tasks, 'status', ['open', 'progress', 'done'])
+     */
+    toSortedByList: function<T>(
+        fromArray: T[], propName: keyof T, list: T[keyof T][], order: SortDirection = SortDirection.asc,
+        unlisted: 'first' | 'last' = 'last'
+    ): T[] {
+        return [...fromArray].sort(
+            (item1, item2) => sortDescriptorByList(
+                item1[propName], item2[propName], list, order, unlisted
+            )
+        );
+    },
+
+    /**
+     * Az első count elem property alapján (asc: legkisebbek, desc: legnagyobbak), a teljes tömb rendezése nélkül
+     * @param {array} fromArray - bemeneti tömb
+     * @param {string} propName - rendezés alapja
+     * @param {number} count - elemek száma
+     * @param {string} order - rendezés iránya
+     * @param typed - típusfüggő összehasonlítás (ld. sortDescriptor)
+     * @return {array} létrehozott tömb (rendezett)
+     */
+    top: function<T>(
+        fromArray: T[], propName: keyof T, count: number, order: SortDirection = SortDirection.asc,
+        typed: boolean | TypedCompareOptions = false
+    ): T[] {
+        return selectTop(
+            fromArray, count, (item1, item2) => sortDescriptor(item1[propName], item2[propName], order, typed)
+        );
+    },
+
+    /**
+     * Az első count elem kiszámított érték alapján (asc: legkisebbek, desc: legnagyobbak), a teljes tömb rendezése nélkül
+     * @param {array} fromArray - bemeneti tömb
+     * @param {function} calc - rendezés alapja
+     * @param {number} count - elemek száma
+     * @param {string} order - rendezés iránya
+     * @param typed - típusfüggő összehasonlítás (ld. sortDescriptor)
+     * @return {array} létrehozott tömb (rendezett)
+     */
+    topByValue: function<T, U>(
+        fromArray: T[], calc: (value: T) => U, count: number, order: SortDirection = SortDirection.asc,
+        typed: boolean | TypedCompareOptions = false
+    ): T[] {
+        return selectTop(
+            fromArray, count, (item1, item2) => sortDescriptor(calc(item1), calc(item2), order, typed)
+        );
+    },
+
+    /**
+     * Csoportosítás property vagy kiszámított érték alapján (a csoportok az első előfordulás sorrendjében)
+     * @param {array} fromArray - bemeneti tömb
+     * @param key - csoportosítás alapja
+     * @return {Map} csoportérték => elemek
+     * @example
+     *  ArrayOfObjects.groupBy(rows, 'team') => Map { 'a' => [...], 'b' => [...] }
+     */
+    groupBy: function<T, K = T[keyof T]>(fromArray: T[], key: keyof T | ((item: T) => K)): Map<K, T[]> {
+        const accessor = groupAccessor(key) as (item: T) => K;
+        const groups = new Map<K, T[]>();
+        fromArray.forEach(
+            (item) => {
+                const group = accessor(item);
+                if (!groups.has(group)) {
+                    groups.set(group, []);
+                }
+                (groups.get(group) as T[]).push(item);
+            }
+        );
+        return groups;
+    },
+
+    /**
+     * Több szintű csoportosítás egymásba ágyazott objektumokba (a csoportértékek string-gé alakulnak)
+     * @param {array} fromArray - bemeneti tömb
+     * @param {array} keys - csoportosítás alapjai szintenként
+     * @return {object} egymásba ágyazott csoportok
+     * @throws {TypeError} ha eltérő csoportértékek azonos string-gé alakulnak (pl. 1 és '1')
+     * @example
+     *  ArrayOfObjects.groupByNested(rows, ['team', (row) => row.points > 10])
+     *      => { a: { true: [...], false: [...] }, b: { false: [...] } }
+     */
+    groupByNested: function<T>(fromArray: T[], keys: GroupKey<T>[]): NestedGroups<T> {
+        if (keys.length === 0) {
+            throw new TypeError('At least one group key is required');
+        }
+        const [key, ...restKeys] = keys;
+        return groupsToObject(
+            ArrayOfObjects.groupBy<T, unknown>(fromArray, key),
+            (items): NestedGroups<T> | T[] => (restKeys.length > 0 ? ArrayOfObjects.groupByNested(items, restKeys) : items)
+        );
+    },
+
+    /**
+     * Csoportonkénti aggregálás
+     * @param {array} fromArray - bemeneti tömb
+     * @param key - csoportosítás alapja
+     * @param {object} aggregations - kimeneti property => aggregáló függvény (ld. Aggregate)
+     * @return {Map} csoportérték => aggregált értékek
+     * @example
+     *  ArrayOfObjects.aggregate(rows, 'team', { total: Aggregate.sum('points'), avg: Aggregate.avg('points') })
+     *      => Map { 'a' => { total: 12, avg: 6 }, 'b' => { total: 5, avg: 5 } }
+     */
+    aggregate: function<T, K = T[keyof T], A extends Record<string, (items: T[]) => unknown> = Record<string, (items: T[]) => unknown>>(
+        fromArray: T[], key: keyof T | ((item: T) => K), aggregations: A
+    ): Map<K, { [P in keyof A]: ReturnType<A[P]> }> {
+        const result = new Map<K, { [P in keyof A]: ReturnType<A[P]> }>();
+        ArrayOfObjects.groupBy(fromArray, key).forEach(
+            (items, group) => {
+                result.set(group, mapValues(aggregations, (aggregator) => aggregator(items)) as { [P in keyof A]: ReturnType<A[P]> });
+            }
+        );
+        return result;
+    },
+
+    /**
+     * Kimutatás: két property szerinti mátrix, a cellákban a csoport aggregált értékével
+     * @param {array} fromArray - bemeneti tömb
+     * @param rowKey - sorok alapja
+     * @param columnKey - oszlopok alapja
+     * @param aggregator - cellák aggregáló függvénye (ld. Aggregate)
+     * @param [fill] - üres cellák értéke (ha nincs megadva, az üres cellák hiányoznak)
+     * @return {object} sor => oszlop => érték
+     * @throws {TypeError} ha eltérő sor- vagy oszlopértékek azonos string-gé alakulnak (pl. 1 és '1')
+     * @example
+     *  ArrayOfObjects.pivot(sales, 'region', 'month', Aggregate.sum('amount'), 0)
+     *      => { north: { jan: 10, feb: 0 }, south: { jan: 4, feb: 7 } }
+     */
+    pivot: function<T, R>(
+        fromArray: T[], rowKey: GroupKey<T>, columnKey: GroupKey<T>, aggregator: (items: T[]) => R, fill?: R
+    ): Record<string, Record<string, R>> {
+        const columns = Object.keys(groupsToObject(ArrayOfObjects.groupBy<T, unknown>(fromArray, columnKey), () => null));
+        return groupsToObject(
+            ArrayOfObjects.groupBy<T, unknown>(fromArray, rowKey),
+            (rowItems) => ({
+                ...(fill === undefined ? { } : Object.fromEntries(columns.map((column) => [column, fill]))),
+                ...groupsToObject(ArrayOfObjects.groupBy<T, unknown>(rowItems, columnKey), aggregator),
+            })
+        );
+    },
+
     /**
      * Keresés (elsö elemet adja vissza)
      * @param fromArray - bemeneti tömb
@@ -1090,6 +2101,40 @@ export const FILE = {
         );
     },
 
+    /**
+     * Bináris fájl base64 string-gé alakítása
+     * @param {Blob} blob - bináris kód
+     * @return {Promise<string>} base64-el kódolt string (data url előtag nélkül)
+     */
+    blobToBase64: function(blob: Blob): Promise<string> {
+        return blob.arrayBuffer().then(
+            (buffer: ArrayBuffer) => FILE.bytesToBase64(new Uint8Array(buffer))
+        );
+    },
+
+    /**
+     * Byte-ok base64 string-gé alakítása
+     * @param {Uint8Array} bytes
+     * @return {string}
+     */
+    bytesToBase64: function(bytes: Uint8Array): string {
+        let binary = '';
+        // darabonként, mert a String.fromCharCode túl sok argumentumnál stack overflow-t okoz
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+    },
+
+    /**
+     * Base64 string byte-okká alakítása
+     * @param {string} base64
+     * @return {Uint8Array}
+     */
+    base64ToBytes: function(base64: string): Uint8Array<ArrayBuffer> {
+        return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    },
+
     /**
      * Fájl létrehozása és letöltés kényszerítése
      * @param {Blob | MediaSource} fileContent - fájl tartalma
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import {
+    compressionFormat, compressText, compressTextSync, decompressText, decompressTextSync, lzCompress, lzDecompress
+} from '../src/compression';
+
+const json = JSON.stringify(
+    Array.from({ length: 100 }, (_, i) => ({ id: i, name: `item ${i}`, tags: ['a', 'b'] }))
+);
+
+describe('compression', () => {
+
+    it('lzCompress, lzDecompress', () => {
+        ['', 'a', 'aaaaaaaaaa', 'TOBEORNOTTOBEORTOBEORNOT', 'árvíztűrő 😀 tükörfúrógép', '\ud800 lone', json].forEach(
+            (text) => {
+                const compressed = lzCompress(text);
+                expect(compressed).not.toMatch(/[\ud800-\udfff]/);
+                expect(lzDecompress(compressed)).toEqual(text);
+            }
+        );
+        expect(lzCompress(json).length).toBeLessThan(json.length / 5);
+    });
+
+    it('compressTextSync, decompressTextSync', () => {
+        const compressed = compressTextSync(json);
+        expect(compressionFormat(compressed)).toEqual('lz');
+        expect(compressionFormat(json)).toEqual(null);
+        expect(decompressTextSync(compressed)).toEqual(json);
+        expect(decompressTextSync(json)).toEqual(json);
+    });
+
+    it('compressText, decompressText', async () => {
+        const gzip = await compressText(json, 'gzip');
+        const deflate = await compressText(json, 'deflate');
+        expect(compressionFormat(gzip)).toEqual('gzip');
+        expect(compressionFormat(deflate)).toEqual('deflate');
+        expect(await decompressText(gzip)).toEqual(json);
+        expect(await decompressText(deflate)).toEqual(json);
+        expect(await decompressText(await compressText(json, 'lz'))).toEqual(json);
+        expect(() => decompressTextSync(gzip)).toThrow('asynchronously');
+    });
+
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { decryptText, deriveKey, encryptText, generateKey } from '../src/crypto';
+
+describe('crypto', () => {
+
+    it('encryptText, decryptText', async () => {
+        const key = await generateKey();
+        const encrypted = await encryptText(key, 'árvíztűrő tükörfúrógép');
+        expect(encrypted).toMatch(/^[\w+/=]+\.[\w+/=]+$/);
+        expect(encrypted).not.toEqual(await encryptText(key, 'árvíztűrő tükörfúrógép'));
+        expect(await decryptText(key, encrypted)).toEqual('árvíztűrő tükörfúrógép');
+        await expect(decryptText(await generateKey(), encrypted)).rejects.toThrow();
+        await expect(decryptText(key, 'broken')).rejects.toThrow(TypeError);
+    });
+
+    it('deriveKey', async () => {
+        const encrypted = await encryptText(await deriveKey('secret', 'user-1', 1000), 'text');
+        expect(await decryptText(await deriveKey('secret', 'user-1', 1000), encrypted)).toEqual('text');
+        await expect(decryptText(await deriveKey('secret', 'user-2', 1000), encrypted)).rejects.toThrow();
+    });
+
+});
@@ -0,0 +1,186 @@
+/**
+ * @vitest-environment happy-dom
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { delay } from '../src/utility';
+import { createHttpClient, createRequestCache, HttpError, serializeQuery } from '../src/http';
+
+describe('http', () => {
+
+    let fetchMock;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const jsonResponse = (data, status = 200) => new Response(JSON.stringify(data), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+    it('serializeQuery', () => {
+        expect(serializeQuery({ })).toEqual('');
+        expect(serializeQuery({ page: 2, tag: ['a', 'b'], q: null, x: undefined })).toEqual('page=2&tag=a&tag=b');
+        expect(serializeQuery({ s: 'a b&c', on: true })).toEqual('s=a+b%26c&on=true');
+        expect(serializeQuery({ at: new Date(Date.UTC(2024, 0, 1)) })).toEqual('at=2024-01-01T00%3A00%3A00.000Z');
+    });
+
+    it('get', async () => {
+        fetchMock.mockImplementation(() => Promise.resolve(jsonResponse([{ id: 1 }])));
+        const api = createHttpClient({ baseUrl: 'https://example.com/api/', headers: { 'X-App': 'test' } });
+        await expect(api.get('/teams', { query: { page: 2 } })).resolves.toEqual([{ id: 1 }]);
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toEqual('https://example.com/api/teams?page=2');
+        expect(init.method).toEqual('GET');
+        expect(init.headers).toMatchObject({ 'X-App': 'test', Accept: 'application/json' });
+        await api.get('https://other.com/x');
+        expect(fetchMock.mock.calls[1][0]).toEqual('https://other.com/x');
+    });
+
+    it('post', async () => {
+        fetchMock.mockImplementation(() => Promise.resolve(new Response(null, { status: 204 })));
+        const api = createHttpClient();
+        await expect(api.post('/teams', { body: { name: 'A' } })).resolves.toBeUndefined();
+        const [, init] = fetchMock.mock.calls[0];
+        expect(init.body).toEqual('{"name":"A"}');
+        expect(init.headers['Content-Type']).toEqual('application/json');
+        const form = new FormData();
+        await api.post('/files', { body: form });
+        expect(fetchMock.mock.calls[1][1].body).toBe(form);
+        expect(fetchMock.mock.calls[1][1].headers['Content-Type']).toBeUndefined();
+    });
+
+    it('HttpError', async () => {
+        fetchMock.mockResolvedValue(jsonResponse({ message: 'missing' }, 404));
+        const api = createHttpClient({ baseUrl: '/api' });
+        const error = await api.get('/teams/9').catch((err) => err);
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error).toMatchObject({ status: 404, body: { message: 'missing' }, url: '/api/teams/9', method: 'GET' });
+
+        fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+        const networkError = await api.get('/teams').catch((err) => err);
+        expect(networkError).toBeInstanceOf(HttpError);
+        expect(networkError.status).toEqual(0);
+        expect(networkError.cause).toBeInstanceOf(TypeError);
+    });
+
+    it('interceptors', async () => {
+        fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: true })));
+        const api = createHttpClient();
+        const eject = api.interceptors.request.use((request) => ({
+            ...request,
+            init: { ...request.init, headers: { ...request.init.headers as object, Authorization: 'Bearer x' } }
+        }));
+        const onResponse = vi.fn((response) => response);
+        api.interceptors.response.use(onResponse);
+        await api.get('/me');
+        expect(fetchMock.mock.calls[0][1].headers.Authorization).toEqual('Bearer x');
+        expect(onResponse).toHaveBeenCalledWith(expect.any(Response), expect.objectContaining({ url: '/me' }));
+        eject();
+        await api.get('/me');
+        expect(fetchMock.mock.calls[1][1].headers.Authorization).toBeUndefined();
+    });
+
+    describe('createRequestCache', () => {
+
+        it('deduplicates concurrent requests', async () => {
+            fetchMock.mockImplementation(() => new Promise((resolve) => {
+                window.setTimeout(() => resolve(jsonResponse({ id: 1 })), 20);
+            }));
+            const cache = createRequestCache();
+            const responses = await Promise.all([
+                cache.request({ times: 1, url: '/a' }),
+                cache.request({ times: 1, url: '/a' }),
+                cache.request({ times: 1, url: '/b' }),
+            ]);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            await expect(responses[0].json()).resolves.toEqual({ id: 1 });
+            await expect(responses[1].json()).resolves.toEqual({ id: 1 });
+            await cache.request({ times: 1, url: '/a' });
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+        it('deduplicates concurrent failures', async () => {
+            fetchMock.mockImplementation(() => new Promise((resolve) => {
+                window.setTimeout(() => resolve(jsonResponse({ message: 'missing' }, 404)), 20);
+            }));
+            const api = createHttpClient({ cache: createRequestCache() });
+            const results = await Promise.allSettled([api.get('/x'), api.get('/x')]);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            results.forEach((result) => {
+                expect(result).toMatchObject({ status: 'rejected', reason: { status: 404, body: { message: 'missing' } } });
+                expect((result as PromiseRejectedResult).reason).toBeInstanceOf(HttpError);
+            });
+        });
+
+        it('aborting one caller does not affect the others', async () => {
+            fetchMock.mockImplementation((_url, init) => new Promise((resolve, reject) => {
+                init?.signal?.addEventListener('abort', () => reject(init.signal.reason));
+                window.setTimeout(() => resolve(jsonResponse({ id: 1 })), 20);
+            }));
+            const cache = createRequestCache();
+            const controller = new AbortController();
+            const first = cache.request({ times: 1, url: '/a', options: { signal: controller.signal } });
+            const second = cache.request({ times: 1, url: '/a' });
+            controller.abort(new DOMException('Unmounted', 'AbortError'));
+            await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+            await expect((await second).json()).resolves.toEqual({ id: 1 });
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('headers are part of the key', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: true })));
+            const cache = createRequestCache({ ttl: 1000 });
+            const read = (token) => cache.request({ times: 1, url: '/me', options: { headers: { Authorization: token } } });
+            await read('a');
+            await read('a');
+            await read('b');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            cache.invalidate('/me');
+            await read('a');
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+        it('ttl, staleWhileRevalidate and invalidation', async () => {
+            let counter = 0;
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ counter: ++counter })));
+            const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+            const cache = createRequestCache({ ttl: 100, staleWhileRevalidate: 100 });
+            const read = (url) => cache.request({ times: 1, url }).then((response) => response.json());
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 1 });
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 1 });
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            now.mockReturnValue(1150);
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 1 });
+            await delay(0);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 2 });
+            now.mockReturnValue(2000);
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 3 });
+            await read('/teams/2');
+            cache.invalidatePrefix('/teams/');
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 5 });
+            cache.invalidate('/teams/1');
+            await expect(read('/teams/1')).resolves.toEqual({ counter: 6 });
+            now.mockRestore();
+        });
+
+        it('with http client', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: true })));
+            const api = createHttpClient({ cache: createRequestCache({ ttl: 1000 }) });
+            await api.get('/me');
+            await expect(api.get('/me')).resolves.toEqual({ ok: true });
+            await api.post('/me', { body: { } });
+            await api.post('/me', { body: { } });
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+    });
+
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { compareKeys, createMemoryIndexedDB, createMemoryStorage, MemoryKeyRange } from '../src/memory';
+
+const open = function(factory: IDBFactory, name: string, version?: number, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = factory.open(name, version);
+        request.onupgradeneeded = () => upgrade?.(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const result = function<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+describe('memory', () => {
+
+    it('createMemoryStorage', () => {
+        const memory = createMemoryStorage();
+        memory.setItem('a', '1');
+        memory.setItem('b', '2');
+        expect(memory.getItem('a')).toEqual('1');
+        expect(memory.getItem('c')).toEqual(null);
+        expect(memory.length).toEqual(2);
+        expect(memory.key(1)).toEqual('b');
+        memory.removeItem('a');
+        expect(memory.key(0)).toEqual('b');
+        memory.clear();
+        expect(memory.length).toEqual(0);
+    });
+
+    it('compareKeys', () => {
+        expect([[1], 'b', new Date(5), 10, 'a', 2].sort(compareKeys)).toEqual([2, 10, new Date(5), 'a', 'b', [1]]);
+        expect(compareKeys([1, 'a'], [1, 'b'])).toEqual(-1);
+        expect(compareKeys([1], [1, 0])).toEqual(-1);
+        expect(() => compareKeys(NaN, 1)).toThrow(expect.objectContaining({ name: 'DataError' }));
+        expect(MemoryKeyRange.bound(1, 5, true).includes(1)).toEqual(false);
+        expect(MemoryKeyRange.lowerBound('a').includes('b')).toEqual(true);
+    });
+
+    it('createMemoryIndexedDB', async () => {
+        const factory = createMemoryIndexedDB();
+        const db = await open(factory, 'test', 1, (database) => {
+            const store = database.createObjectStore('items', { keyPath: 'id', autoIncrement: true });
+            store.createIndex('byName', 'name', { unique: true });
+        });
+        expect([...db.objectStoreNames]).toEqual(['items']);
+
+        const write = db.transaction('items', 'readwrite');
+        const items = write.objectStore('items');
+        expect(await result(items.add({ name: 'b' }))).toEqual(1);
+        expect(await result(items.put({ id: 5, name: 'a' }))).toEqual(5);
+        await expect(result(items.add({ name: 'a' }))).rejects.toMatchObject({ name: 'ConstraintError' });
+
+        const read = db.transaction('items').objectStore('items');
+        expect(write.error).toMatchObject({ name: 'ConstraintError' });
+        expect(await result(read.getAll())).toEqual([]);
+        expect(() => read.put({ name: 'c' })).toThrow(expect.objectContaining({ name: 'ReadOnlyError' }));
+
+        const store = db.transaction('items', 'readwrite').objectStore('items');
+        expect(await result(store.add({ name: 'b' }))).toEqual(1);
+        await result(store.put({ id: 5, name: 'a' }));
+        expect(await result(store.index('byName').getAll())).toEqual([{ id: 5, name: 'a' }, { id: 1, name: 'b' }]);
+        expect(await result(store.count(MemoryKeyRange.upperBound(4)))).toEqual(1);
+
+        db.close();
+        const upgraded = await open(factory, 'test', 2, (database) => database.createObjectStore('other'));
+        expect([...upgraded.objectStoreNames]).toEqual(['items', 'other']);
+        await expect(open(factory, 'test', 1)).rejects.toMatchObject({ name: 'VersionError' });
+    });
+
+});
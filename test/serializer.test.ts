@@ -0,0 +1,66 @@
+/**
+ * @vitest-environment happy-dom
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createRichSerializer, jsonSerializer } from '../src/serializer';
+
+describe('serializer', () => {
+
+    it('jsonSerializer', () => {
+        expect(jsonSerializer.parse(jsonSerializer.stringify({ a: [1, 'b'] }))).toEqual({ a: [1, 'b'] });
+    });
+
+    describe('createRichSerializer', () => {
+
+        const serializer = createRichSerializer();
+        const roundTrip = (value) => serializer.parse(serializer.stringify(value));
+
+        it('built-in types', () => {
+            const date = new Date(Date.UTC(2024, 0, 1));
+            expect(roundTrip(date)).toEqual(date);
+            expect(roundTrip(new Map([['a', 1], ['b', 2]]))).toEqual(new Map([['a', 1], ['b', 2]]));
+            expect(roundTrip(new Set([1, 2, 3]))).toEqual(new Set([1, 2, 3]));
+            expect(roundTrip(12345678901234567890n)).toEqual(12345678901234567890n);
+            expect(roundTrip(/ab+c/gi)).toEqual(/ab+c/gi);
+            expect(roundTrip(undefined)).toBeUndefined();
+            expect(roundTrip([1, undefined, 3])).toEqual([1, undefined, 3]);
+            expect(roundTrip(NaN)).toBeNaN();
+            expect(roundTrip(-Infinity)).toEqual(-Infinity);
+            expect(roundTrip(new Uint8Array([1, 2, 255]))).toEqual(new Uint8Array([1, 2, 255]));
+            expect(roundTrip(new Float64Array([1.5, -2]))).toEqual(new Float64Array([1.5, -2]));
+            expect(roundTrip(new BigInt64Array([1n, -2n]))).toEqual(new BigInt64Array([1n, -2n]));
+        });
+
+        it('nested values', () => {
+            const value = {
+                at: new Date(0),
+                tags: new Set(['a']),
+                byId: new Map([[1, { seen: new Date(1000), extra: undefined }]]),
+                plain: { $type: 'Date', $data: 'not a date' },
+            };
+            const result = roundTrip(value);
+            expect(result).toEqual(value);
+            expect(Object.keys(result.byId.get(1))).toEqual(['seen', 'extra']);
+        });
+
+        it('custom codecs', () => {
+            class Point {
+                constructor(public x: number, public y: number) { }
+            }
+            const custom = createRichSerializer();
+            custom.register<Point>({
+                tag: 'Point',
+                test: (value) => value instanceof Point,
+                encode: (point) => ({ x: point.x, y: point.y }),
+                decode: (data) => new Point(data.x, data.y),
+            });
+            const result = custom.parse(custom.stringify({ points: [new Point(1, 2)] })) as { points: Point[] };
+            expect(result.points[0]).toBeInstanceOf(Point);
+            expect(result.points[0]).toEqual(new Point(1, 2));
+            expect(() => serializer.parse(custom.stringify(new Point(1, 2)))).toThrow('Unknown serializer type: Point');
+        });
+
+    });
+
+});
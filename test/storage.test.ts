@@ -0,0 +1,536 @@
+/**
+ * @vitest-environment happy-dom
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRichSerializer, jsonSerializer } from '../src/serializer';
+import { deriveKey, generateKey } from '../src/crypto';
+import { createMemoryStorage } from '../src/memory';
+import {
+    Cache, DB, EncryptedPool, exportStorage, importStorage, setSerializer, setStorageBackend, storage, StorageDecryptionError,
+    StorageQuotaError, StorageSchemaError, storageUsage, VersionedPool
+} from '../src/storage';
+
+describe('storage', () => {
+
+    beforeEach(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+    });
+
+    it('storage', () => {
+        storage.local.set('a', { b: 1 });
+        expect(storage.local.get('a')).toEqual({ b: 1 });
+        storage.local.remove('a');
+        expect(storage.local.get('a')).toEqual(null);
+        storage.session.set('a', [1, 2]);
+        expect(storage.session.get('a')).toEqual([1, 2]);
+    });
+
+    it('compress', async () => {
+        const data = Array.from({ length: 50 }, (_, id) => ({ id, name: `item ${id}` }));
+        storage.local.set('a', data, { compress: true });
+        storage.local.set('b', 1, { compress: true });
+        expect(localStorage.getItem('a')).toMatch(/^~lz~/);
+        expect(localStorage.getItem('b')).toEqual('1');
+        expect(storage.local.get('a')).toEqual(data);
+        await storage.local.setAsync('c', data, { compress: 'gzip', ttl: 1000 });
+        expect(localStorage.getItem('c')).toMatch(/^~gz~/);
+        expect(await storage.local.getAsync('c')).toEqual(data);
+        expect(await storage.local.getAsync('a')).toEqual(data);
+        expect(() => storage.local.get('c')).toThrow('getAsync');
+        const pool = Cache('local', 'pool', { compress: true });
+        pool.data = data;
+        expect(localStorage.getItem('pool')).toMatch(/^~lz~/);
+        Cache('local', 'pool').other = 1;
+        expect(localStorage.getItem('pool')).toMatch(/^~lz~/);
+        expect(Cache('local', 'pool').data).toEqual(data);
+    });
+
+    it('setSerializer', () => {
+        setSerializer(createRichSerializer());
+        const date = new Date(Date.UTC(2024, 0, 1));
+        storage.local.set('a', { date, ids: new Set([1, 2]) }, { ttl: 1000 });
+        expect(storage.local.get('a')).toEqual({ date, ids: new Set([1, 2]) });
+        const form = Cache('session', 'form');
+        form.byId = new Map([[1, 'a']]);
+        expect(form.byId).toEqual(new Map([[1, 'a']]));
+        expect(JSON.parse(localStorage.getItem('a') as string).$value.date).toEqual({ $type: 'Date', $data: date.getTime() });
+        setSerializer(jsonSerializer);
+    });
+
+    it('ttl', () => {
+        const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+        storage.local.set('a', { b: 1 }, { ttl: 100 });
+        storage.local.set('c', 2);
+        expect(storage.local.get('a')).toEqual({ b: 1 });
+        expect(storage.local.expiry('a')).toEqual(1100);
+        expect(storage.local.expiry('c')).toEqual(null);
+        now.mockReturnValue(1100);
+        expect(storage.local.get('a')).toEqual(null);
+        expect(localStorage.getItem('a')).toEqual(null);
+        expect(storage.local.get('c')).toEqual(2);
+        now.mockRestore();
+    });
+
+    it('subscribe', async () => {
+        const listener = vi.fn();
+        const unsubscribe = storage.local.subscribe(listener);
+        storage.local.set('a', 1);
+        expect(listener).toHaveBeenLastCalledWith({ type: 'local', key: 'a', oldValue: null, newValue: 1, source: 'self' });
+        storage.local.remove('a');
+        expect(listener).toHaveBeenLastCalledWith({ type: 'local', key: 'a', oldValue: 1, newValue: null, source: 'self' });
+        const otherTab = new BroadcastChannel('@herbertusz/utility:storage');
+        otherTab.postMessage({ key: 'b', oldRaw: null, newRaw: '2' });
+        await vi.waitFor(() => {
+            expect(listener).toHaveBeenLastCalledWith({ type: 'local', key: 'b', oldValue: null, newValue: 2, source: 'broadcast' });
+        });
+        window.dispatchEvent(new StorageEvent('storage', { key: 'b', oldValue: null, newValue: '2', storageArea: localStorage }));
+        expect(listener).toHaveBeenCalledTimes(3);
+        otherTab.close();
+        unsubscribe();
+        storage.local.set('a', 1);
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+
+    it('subscribe to a sender without subscribers', () => {
+        const listener = vi.fn();
+        const unsubscribe = storage.local.subscribe(listener);
+        const otherTabWrite = (oldValue: string | null, newValue: string) => {
+            localStorage.setItem('b', newValue);
+            window.dispatchEvent(new StorageEvent('storage', { key: 'b', oldValue, newValue, storageArea: localStorage }));
+        };
+        otherTabWrite(null, '1');
+        storage.local.set('b', 5);
+        otherTabWrite('5', '1');
+        expect(listener).toHaveBeenCalledTimes(3);
+        expect(listener).toHaveBeenLastCalledWith({ type: 'local', key: 'b', oldValue: 5, newValue: 1, source: 'storage' });
+        unsubscribe();
+    });
+
+    it('subscribe compressed', async () => {
+        const listener = vi.fn();
+        const unsubscribe = storage.local.subscribe(listener);
+        const text = 'text'.repeat(50);
+        await storage.local.setAsync('big', text, { compress: 'gzip' });
+        await vi.waitFor(() => {
+            expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ key: 'big', oldValue: null, newValue: text }));
+        });
+        storage.local.set('big', 1);
+        await vi.waitFor(() => {
+            expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ key: 'big', oldValue: text, newValue: 1 }));
+        });
+        unsubscribe();
+    });
+
+    it('broadcast only while subscribed', async () => {
+        const otherTab = new BroadcastChannel('@herbertusz/utility:storage');
+        const received = vi.fn();
+        otherTab.addEventListener('message', (event) => received(event.data));
+        storage.local.set('a', 1);
+        const unsubscribe = storage.local.subscribe(vi.fn());
+        storage.local.set('a', 2);
+        await vi.waitFor(() => {
+            expect(received).toHaveBeenCalledTimes(1);
+        });
+        unsubscribe();
+        storage.local.set('a', 3);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(received).toHaveBeenCalledTimes(1);
+        expect(received).toHaveBeenCalledWith({ key: 'a', oldRaw: '1', newRaw: '2' });
+        otherTab.close();
+    });
+
+    describe('Cache', () => {
+
+        it('get, set', () => {
+            const form = Cache('session', 'longform');
+            expect(form.name).toBeUndefined();
+            form.name = 'John';
+            expect(form.name).toEqual('John');
+            expect(storage.session.get('longform')).toEqual({ name: 'John' });
+        });
+
+        it('has, deleteProperty, defineProperty', () => {
+            const form = Cache('local', 'longform');
+            form.name = 'John';
+            expect('name' in form).toEqual(true);
+            expect('age' in form).toEqual(false);
+            expect(delete form.name).toEqual(true);
+            expect('name' in form).toEqual(false);
+            expect(storage.local.get('longform')).toEqual({ });
+            Object.defineProperty(form, 'age', { value: 30 });
+            expect(form.age).toEqual(30);
+            expect(() => Object.defineProperty(form, 'x', { get: () => 1 })).toThrow(TypeError);
+            expect(Object.keys(form)).toEqual(['age']);
+            expect({ ...form }).toEqual({ age: 30 });
+        });
+
+        it('pool operations', () => {
+            const form = Cache('local', 'form1');
+            Cache('local', 'form2');
+            Cache('session', 'form3');
+            expect(Cache.pools('local')).toEqual(['form1', 'form2']);
+            Cache.assign('local', 'form1', { name: 'John', age: 30 });
+            expect(form.age).toEqual(30);
+            const snapshot = Cache.snapshot('local', 'form1');
+            expect(snapshot).toEqual({ name: 'John', age: 30 });
+            snapshot.age = 31;
+            expect(form.age).toEqual(30);
+            Cache.clear('local', 'form1');
+            expect(Cache.snapshot('local', 'form1')).toEqual({ });
+            Cache.remove('local', 'form2');
+            expect(Cache.pools('local')).toEqual(['form1']);
+            expect(storage.local.get('form2')).toEqual(null);
+        });
+
+        it('ttl', () => {
+            const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+            const api = Cache('local', 'api', { ttl: 100 });
+            api.teams = ['a'];
+            Cache.assign('local', 'api', { players: ['b'] }, { ttl: 200 });
+            Cache.assign('local', 'api', { forever: true });
+            expect(api.teams).toEqual(['a']);
+            expect(Cache.expiry('local', 'api', 'teams')).toEqual(1100);
+            expect(Cache.expiry('local', 'api', 'players')).toEqual(1200);
+            expect(Cache.expiry('local', 'api', 'forever')).toEqual(null);
+            expect(Cache.snapshot('local', 'api')).toEqual({ teams: ['a'], players: ['b'], forever: true });
+            now.mockReturnValue(1100);
+            expect(api.teams).toBeUndefined();
+            expect('teams' in api).toEqual(false);
+            expect(Object.keys(api)).toEqual(['players', 'forever']);
+            now.mockReturnValue(1200);
+            expect(Cache.sweep('local', 'api')).toEqual(1);
+            expect(Cache.sweep('local')).toEqual(0);
+            expect(Object.keys(storage.local.get('api') as object)).toEqual(['forever']);
+            now.mockRestore();
+        });
+
+        it('subscribe', () => {
+            const form = Cache('local', 'longform');
+            form.name = 'John';
+            const listener = vi.fn();
+            const unsubscribe = Cache.subscribe('local', 'longform', listener);
+            form.name = 'Jane';
+            form.age = 30;
+            expect(listener).toHaveBeenNthCalledWith(1, {
+                type: 'local', pool: 'longform', key: 'name', oldValue: 'John', newValue: 'Jane', source: 'self'
+            });
+            expect(listener).toHaveBeenNthCalledWith(2, expect.objectContaining({ key: 'age', oldValue: undefined, newValue: 30 }));
+            window.dispatchEvent(new StorageEvent('storage', {
+                key: 'longform',
+                oldValue: JSON.stringify({ name: 'Jane', age: 30 }),
+                newValue: JSON.stringify({ name: 'Joe', age: 30 }),
+                storageArea: localStorage
+            }));
+            expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ key: 'name', newValue: 'Joe', source: 'storage' }));
+            expect(listener).toHaveBeenCalledTimes(3);
+            unsubscribe();
+            form.name = 'Jim';
+            expect(listener).toHaveBeenCalledTimes(3);
+        });
+
+    });
+
+    describe('VersionedPool', () => {
+
+        const isForm = (data): data is { name: string, tags: string[] } => (
+            typeof data?.name === 'string' && Array.isArray(data.tags)
+        );
+
+        const createPool = () => VersionedPool('local', 'form', {
+            version: 2,
+            validate: isForm,
+            migrations: {
+                0: (data) => ({ name: data.firstName }),
+                1: (data) => ({ ...data, tags: [] }),
+            }
+        });
+
+        it('get, set', () => {
+            const pool = createPool();
+            expect(pool.get()).toEqual(null);
+            pool.set({ name: 'John', tags: ['a'] });
+            expect(storage.local.get('form')).toEqual({ $version: 2, $data: { name: 'John', tags: ['a'] } });
+            expect(pool.get()).toEqual({ name: 'John', tags: ['a'] });
+            expect(() => pool.set({ name: 1 } as never)).toThrow(StorageSchemaError);
+            pool.remove();
+            expect(pool.get()).toEqual(null);
+        });
+
+        it('migrations', () => {
+            storage.local.set('form', { firstName: 'John' });
+            expect(createPool().get()).toEqual({ name: 'John', tags: [] });
+            expect(storage.local.get('form')).toEqual({ $version: 2, $data: { name: 'John', tags: [] } });
+            storage.local.set('form', { $version: 1, $data: { name: 'Jane' } });
+            expect(createPool().get()).toEqual({ name: 'Jane', tags: [] });
+            storage.local.set('form', { firstName: 'John'.repeat(30) }, { compress: true });
+            expect(createPool().get()).toEqual({ name: 'John'.repeat(30), tags: [] });
+            expect(localStorage.getItem('form')?.startsWith('~lz~')).toEqual(true);
+        });
+
+        it('errors', () => {
+            const pool = createPool();
+            localStorage.setItem('form', '{broken');
+            expect(() => pool.get()).toThrow(expect.objectContaining({ reason: 'parse' }));
+            storage.local.set('form', { $version: 3, $data: { } });
+            expect(() => pool.get()).toThrow(expect.objectContaining({ reason: 'version' }));
+            storage.local.set('form', { $version: 2, $data: { name: 'John' } });
+            expect(() => pool.get()).toThrow(expect.objectContaining({ reason: 'validation', key: 'form' }));
+            storage.local.set('form', { firstName: 'John' });
+            expect(() => VersionedPool('local', 'form', { version: 1, validate: isForm }).get()).toThrow(
+                expect.objectContaining({ reason: 'version' })
+            );
+        });
+
+    });
+
+    describe('EncryptedPool', () => {
+
+        it('get, set', async () => {
+            const drafts = EncryptedPool('local', 'drafts', { key: deriveKey('secret', 'user', 1000) });
+            await drafts.set('letter', { to: 'John' });
+            await drafts.assign({ note: 'text', count: 2 });
+            expect(await drafts.get('letter')).toEqual({ to: 'John' });
+            expect(await drafts.get('missing')).toEqual(undefined);
+            expect(await drafts.snapshot()).toEqual({ letter: { to: 'John' }, note: 'text', count: 2 });
+            expect(localStorage.getItem('drafts')).not.toContain('John');
+            expect(Cache.snapshot('local', 'drafts').note).toEqual({ $encrypted: expect.any(String) });
+            drafts.remove('note');
+            expect(Object.keys(Cache.snapshot('local', 'drafts'))).toEqual(['letter', 'count']);
+        });
+
+        it('StorageDecryptionError', async () => {
+            await EncryptedPool('local', 'drafts', { key: generateKey() }).set('letter', 'text');
+            await expect(EncryptedPool('local', 'drafts', { key: generateKey() }).get('letter')).rejects.toThrow(
+                expect.objectContaining({ name: 'StorageDecryptionError', key: 'drafts.letter' })
+            );
+            await expect(EncryptedPool('local', 'drafts', { key: generateKey() }).snapshot()).rejects.toThrow(StorageDecryptionError);
+        });
+
+    });
+
+    describe('DB', () => {
+
+        interface Item {
+            id: string;
+            group: number;
+        }
+
+        const createSchema = (name: string) => DB.createSchema(name, 1, [
+            { storeName: 'items', keyPath: 'id', indexes: [{ name: 'byGroup', keyPath: 'group' }] },
+            { storeName: 'logs', keyPath: 'id', autoIncrement: true },
+        ]);
+
+        it('repository', async () => {
+            await createSchema('repository');
+            const items = DB.repository<Item, string>('repository', 'items');
+            await items.put({ id: 'b', group: 1 });
+            await items.put({ id: 'a', group: 2 });
+            await items.put({ id: 'c', group: 1 });
+            expect(await items.get('a')).toEqual({ id: 'a', group: 2 });
+            expect(await items.count()).toEqual(3);
+            expect(await items.list({ offset: 1, limit: 1 })).toEqual([{ id: 'b', group: 1 }]);
+            expect(await items.query('byGroup', { range: DB.range.only(1), direction: 'prev' })).toEqual([
+                { id: 'c', group: 1 }, { id: 'b', group: 1 }
+            ]);
+            await items.delete('a');
+            expect(await items.get('a')).toEqual(undefined);
+        });
+
+        it('encrypted repository', async () => {
+            await createSchema('encrypted');
+            const key = generateKey();
+            const items = DB.repository<Item & { secret: string }, string>('encrypted', 'items', { key });
+            await items.put({ id: 'a', group: 1, secret: 'x' });
+            expect(await items.get('a')).toEqual({ id: 'a', group: 1, secret: 'x' });
+            expect(await items.list()).toEqual([{ id: 'a', group: 1, secret: 'x' }]);
+            expect(await DB.repository('encrypted', 'items').get('a')).toEqual({ id: 'a', $encrypted: expect.any(String) });
+            await expect(DB.repository('encrypted', 'items', { key: generateKey() }).get('a')).rejects.toThrow(StorageDecryptionError);
+        });
+
+        it('iterate', async () => {
+            await createSchema('iterate');
+            await DB.transaction('iterate', 'items', 'readwrite', (tx) => tx.putMany('items', [
+                { id: 'img-1', group: 1 }, { id: 'img-2', group: 1 }, { id: 'pdf-1', group: 2 }
+            ]));
+            const store = await DB.openStore('iterate', 'items', 'readonly');
+            const keys: IDBValidKey[] = [];
+            for await (const { key } of DB.iterate(store, { range: DB.range.prefix('img-') })) {
+                keys.push(key);
+            }
+            expect(keys).toEqual(['img-1', 'img-2']);
+        });
+
+        it('transaction', async () => {
+            await createSchema('transaction');
+            await expect(DB.transaction('transaction', ['items', 'logs'], 'readwrite', async (tx) => {
+                await tx.put('logs', { message: 'start' });
+                await tx.add('items', { id: 'a', group: 1 });
+                await tx.add('items', { id: 'a', group: 2 });
+            })).rejects.toMatchObject({ operation: { name: 'add', storeName: 'items' } });
+            expect(await DB.repository('transaction', 'logs').count()).toEqual(0);
+            expect(await DB.repository('transaction', 'items').count()).toEqual(0);
+        });
+
+        it('transaction result', async () => {
+            await createSchema('result');
+            await expect(DB.transaction('result', 'items', 'readwrite', async (tx) => {
+                await tx.put('items', { id: 'a', group: 1 });
+                return 'done';
+            })).resolves.toEqual('done');
+            expect(await DB.repository('result', 'items').count()).toEqual(1);
+
+            const error = new Error('failed');
+            await expect(DB.transaction('result', 'items', 'readwrite', async (tx) => {
+                await tx.put('items', { id: 'b', group: 1 });
+                throw error;
+            })).rejects.toMatchObject({ data: error });
+            expect(await DB.repository('result', 'items').get('b')).toEqual(undefined);
+        });
+
+        it('transaction awaiting non-IndexedDB work', async () => {
+            await createSchema('inactive');
+            await expect(DB.transaction('inactive', 'items', 'readwrite', async (tx) => {
+                await tx.put('items', { id: 'a', group: 1 });
+                await new Promise((resolve) => setTimeout(resolve, 50));
+                await tx.put('items', { id: 'b', group: 1 });
+                return 'done';
+            })).rejects.toMatchObject({
+                data: expect.objectContaining({ name: 'TransactionInactiveError' }),
+                operation: { name: 'put', storeName: 'items' }
+            });
+            await expect(DB.transaction('inactive', 'items', 'readwrite', async (tx) => {
+                await tx.put('items', { id: 'c', group: 1 });
+                await new Promise((resolve) => setTimeout(resolve, 50));
+                return 'done';
+            })).rejects.toMatchObject({ data: expect.objectContaining({ name: 'TransactionInactiveError' }) });
+        });
+
+        it('missing database', async () => {
+            await expect(DB.repository('missing', 'items').list()).rejects.toMatchObject({
+                message: 'database missing not created, call DB.createSchema first'
+            });
+            await createSchema('missing');
+            expect(await DB.repository('missing', 'items').list()).toEqual([]);
+        });
+
+    });
+
+    describe('quota', () => {
+
+        beforeEach(() => {
+            setStorageBackend({ local: createMemoryStorage({ quota: 170 }) });
+            return () => setStorageBackend({ local: undefined });
+        });
+
+        it('StorageQuotaError', () => {
+            expect(() => storage.local.set('a', 'x'.repeat(100))).toThrow(StorageQuotaError);
+            expect(() => storage.local.set('a', 'x'.repeat(100))).toThrow(expect.objectContaining({ key: 'a', bytes: 206 }));
+            const pool = Cache('local', 'pool');
+            expect(() => {
+                pool.a = 'x'.repeat(80);
+            }).toThrow(StorageQuotaError);
+        });
+
+        it('storageUsage', () => {
+            Cache('local', 'pool');
+            Cache.assign('local', 'pool', { a: 1, bc: 'x' });
+            expect(storageUsage('local')).toEqual({
+                total: 86,
+                keys: { pool: 40, __cache_pools__: 46 },
+                pools: { pool: { a: 4, bc: 10 } },
+            });
+        });
+
+        it('lru', () => {
+            const pool = Cache('local', 'pool', { evict: 'lru' });
+            pool.a = 'x'.repeat(10);
+            pool.b = 'x'.repeat(10);
+            pool.c = 'x'.repeat(10);
+            expect(pool.a).toEqual('x'.repeat(10));
+            pool.d = 'x'.repeat(10);
+            expect(Object.keys(pool)).toEqual(['a', 'c', 'd']);
+            expect(() => {
+                pool.e = 'x'.repeat(100);
+            }).toThrow(StorageQuotaError);
+            expect(Object.keys(pool)).toEqual(['a', 'c', 'd']);
+        });
+
+    });
+
+    describe('export, import', () => {
+
+        const createBackup = async () => {
+            await DB.createSchema('backup', 1, [{ storeName: 'files', keyPath: 'id' }, { storeName: 'blobs' }]);
+            await DB.repository('backup', 'files').put({ id: 'a', date: new Date(0), file: new Blob(['hello'], { type: 'text/plain' }) });
+            await DB.transaction('backup', 'blobs', 'readwrite', (tx) => {
+                tx.store('blobs').put(new File(['x'], 'x.txt'), 'x');
+            });
+            Cache('local', 'form');
+            Cache.assign('local', 'form', { name: 'John', age: 30 });
+            storage.local.set('big', 'text'.repeat(20), { compress: true });
+            storage.session.set('tab', 1);
+            return exportStorage({ local: ['form', 'big'], databases: { backup: ['files', 'blobs'] } });
+        };
+
+        it('exportStorage', async () => {
+            const json = await createBackup();
+            const data = JSON.parse(json);
+            expect(data).toMatchObject({ format: '@herbertusz/utility:storage-export', version: 1 });
+            expect(data.storage).toEqual({ local: { form: '{"name":"John","age":30}', big: JSON.stringify('text'.repeat(20)) } });
+            expect(data.databases.backup.files[0].key).toEqual('a');
+            expect(data.databases.backup.blobs[0].value).toEqual({ $type: 'Blob', $data: { type: '', base64: 'eA==', name: 'x.txt' } });
+        });
+
+        it('importStorage', async () => {
+            const json = await createBackup();
+            Cache.assign('local', 'form', { name: 'Jane', email: 'jane@example.com' });
+            await DB.repository('backup', 'files').put({ id: 'b' });
+            await importStorage(json);
+            expect(Cache.snapshot('local', 'form')).toEqual({ name: 'John', age: 30, email: 'jane@example.com' });
+            const files = await DB.repository<{ id: string, date: Date, file: Blob }>('backup', 'files').list();
+            expect(files.map(({ id }) => id)).toEqual(['a', 'b']);
+            expect(files[0].date).toEqual(new Date(0));
+            expect(await files[0].file.text()).toEqual('hello');
+            expect(await DB.repository<File>('backup', 'blobs').get('x')).toMatchObject({ name: 'x.txt' });
+
+            Cache.assign('local', 'form', { email: 'jane@example.com' });
+            localStorage.setItem('token', 'abc');
+            Cache('local', 'other');
+            Cache.assign('local', 'other', { theme: 'dark' });
+            await importStorage(new Blob([json]), { strategy: 'overwrite' });
+            expect(Cache.snapshot('local', 'form')).toEqual({ name: 'John', age: 30 });
+            expect(storage.local.get('big')).toEqual('text'.repeat(20));
+            expect(localStorage.getItem('token')).toEqual('abc');
+            expect(Cache.snapshot('local', 'other')).toEqual({ theme: 'dark' });
+
+            const registry = await exportStorage({ local: ['__cache_pools__', 'form'] });
+            Cache('local', 'later');
+            await importStorage(registry, { strategy: 'overwrite' });
+            expect(storage.local.get('__cache_pools__')).toEqual(expect.arrayContaining(['form', 'other', 'later']));
+            expect(sessionStorage.getItem('tab')).toEqual('1');
+            expect(await DB.repository('backup', 'files').count()).toEqual(1);
+        });
+
+        it('StorageSchemaError', async () => {
+            await expect(importStorage('{broken')).rejects.toThrow(expect.objectContaining({ reason: 'parse' }));
+            await expect(importStorage('{}')).rejects.toThrow(expect.objectContaining({ reason: 'parse' }));
+            await expect(importStorage(JSON.stringify({ format: '@herbertusz/utility:storage-export', version: 2 }))).rejects.toThrow(
+                expect.objectContaining({ reason: 'version' })
+            );
+        });
+
+    });
+
+    it('setStorageBackend', () => {
+        const local = createMemoryStorage();
+        setStorageBackend({ local });
+        storage.local.set('a', 1);
+        expect(local.getItem('a')).toEqual('1');
+        expect(localStorage.getItem('a')).toEqual(null);
+        setStorageBackend({ local: undefined });
+        expect(storage.local.get('a')).toEqual(null);
+    });
+
+});
@@ -6,7 +6,9 @@ import { describe, expect, it, vi } from 'vitest';
 import {
     switching, condition, delay, promiseSequence, tryRequest, macrotask, toggleArray, sortDescriptor, arrayToMap,
     ArrayOfObjects, SVG, SortDirection, promiseSettledSequence, ratioRange, IMG, FILE, generateString, animate,
-    Interval, objectKeys, includesAll, removeAt, objectEntries, mapper, reverseMapper, getPercentage, promiseSequenceAll
+    Interval, objectKeys, includesAll, removeAt, objectEntries, mapper, reverseMapper, getPercentage, promiseSequenceAll,
+    SequenceAbortError, promisePool, promiseSettledPool, match, MatchError, conditionLazy, conditionAsync, ConditionError,
+    createComparator, compareTyped, Aggregate
 } from '../src/utility';
 
 describe('utility', () => {
@@ -48,6 +50,62 @@ describe('utility', () => {
         expect(condition([[false, 1], [true, 2], [true, 3], [true, 4]])).toEqual(2);
     });
     
+    it('conditionLazy', () => {
+        const expensive = vi.fn(() => 3);
+        const tests = [vi.fn(() => false), vi.fn(() => true), vi.fn(() => true)];
+        expect(conditionLazy([
+            [tests[0], expensive],
+            [tests[1], () => 2],
+            [tests[2], expensive]
+        ])).toEqual(2);
+        expect(tests[2]).not.toHaveBeenCalled();
+        expect(expensive).not.toHaveBeenCalled();
+        expect(conditionLazy([[() => false, () => 1]], () => 0)).toEqual(0);
+        expect(() => conditionLazy([[() => false, () => 1]])).toThrow(ConditionError);
+        expect(() => condition([[false, 1]])).toThrow('No condition branch matched');
+    });
+
+    it('conditionAsync', async () => {
+        const order: number[] = [];
+        const test = (index: number, passed: boolean) => () => delay(10 * (3 - index), passed).then((value) => {
+            order.push(index);
+            return value;
+        });
+        const expensive = vi.fn(() => Promise.resolve(3));
+        await expect(conditionAsync([
+            [test(0, false), expensive],
+            [test(1, true), () => delay(10, 2)],
+            [test(2, true), expensive]
+        ])).resolves.toEqual(2);
+        expect(order).toEqual([0, 1]);
+        expect(expensive).not.toHaveBeenCalled();
+        await expect(conditionAsync([[() => false, () => 1]], () => Promise.resolve(0))).resolves.toEqual(0);
+        await expect(conditionAsync([[() => Promise.reject(new Error('test')), () => 1]], () => 0)).rejects.toThrow('test');
+        await expect(conditionAsync([[() => false, () => 1]])).rejects.toThrow(ConditionError);
+    });
+
+    it('match', () => {
+        const label = (value) => match(value)
+            .with(1, () => 'number one')
+            .with('1', () => 'string one')
+            .with(NaN, () => 'NaN')
+            .with((v) => typeof v === 'symbol', (v) => v.description)
+            .when((v) => Array.isArray(v), (v) => `array of ${v.length}`)
+            .otherwise(() => 'other');
+        expect(label(1)).toEqual('number one');
+        expect(label('1')).toEqual('string one');
+        expect(label(NaN)).toEqual('NaN');
+        expect(label(Symbol('id'))).toEqual('id');
+        expect(label([1, 2])).toEqual('array of 2');
+        expect(label({ })).toEqual('other');
+        const key = { };
+        const handler = vi.fn(() => 'later');
+        expect(match(key).with(key, () => 'same').with(() => true, handler).exhaustive()).toEqual('same');
+        expect(handler).not.toHaveBeenCalled();
+        expect(() => match(3).with(1, () => 1).exhaustive()).toThrow(MatchError);
+        expect(() => match(Object.create(null)).exhaustive()).toThrow('[object Object]');
+    });
+
     it('delay', async () => {
         await expect(delay(500, 1)).resolves.toBeDefined();
         await expect(delay(1000, 1)).resolves.toBeDefined();
@@ -100,6 +158,103 @@ describe('utility', () => {
         ]);
     });
 
+    it('promiseSequence abort', async () => {
+        const controller = new AbortController();
+        const third = vi.fn((value) => Promise.resolve(value + 1));
+        const runPromise = promiseSequence<number>([
+            () => delay(50, 1),
+            (value, signal) => {
+                expect(signal).toBe(controller.signal);
+                return delay(500, value + 1);
+            },
+            third
+        ], controller.signal);
+        window.setTimeout(() => controller.abort('leave'), 100);
+        await expect(runPromise).rejects.toBeInstanceOf(SequenceAbortError);
+        await expect(runPromise).rejects.toMatchObject({ step: 1, reason: 'leave' });
+        expect(third).not.toHaveBeenCalled();
+    });
+
+    it('promiseSequenceAll abort', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const first = vi.fn(() => delay(50, 1));
+        await expect(promiseSequenceAll<number>([first], controller.signal)).rejects.toMatchObject({ step: 0 });
+        expect(first).not.toHaveBeenCalled();
+    });
+
+    it('promiseSettledSequence abort', async () => {
+        const controller = new AbortController();
+        const runPromise = promiseSettledSequence<number>([
+            () => Promise.resolve(1),
+            (prev) => Promise.reject(prev + 1),
+            () => delay(500, 3),
+            (prev) => Promise.resolve(prev + 1)
+        ], controller.signal);
+        window.setTimeout(() => controller.abort(), 100);
+        await expect(runPromise).rejects.toBeInstanceOf(SequenceAbortError);
+        await expect(runPromise).rejects.toMatchObject({ step: 2 });
+    });
+
+    it('promisePool', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const factory = (value, timeout) => () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            return delay(timeout, value).then((val) => {
+                running--;
+                return val;
+            });
+        };
+        const onProgress = vi.fn();
+        await expect(promisePool<number>([
+            factory(1, 150), factory(2, 50), factory(3, 100), factory(4, 50), factory(5, 10)
+        ], { concurrency: 2, onProgress })).resolves.toEqual([1, 2, 3, 4, 5]);
+        expect(maxRunning).toEqual(2);
+        expect(onProgress).toHaveBeenCalledTimes(5);
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 5, total: 5 }));
+        await expect(promisePool([])).resolves.toEqual([]);
+        await expect(promisePool([() => delay(10, 1)], { concurrency: 0 })).rejects.toThrow(RangeError);
+        const throwing = (): Promise<number> => {
+            throw new Error('sync');
+        };
+        await expect(promisePool([() => delay(10, 1), throwing], { concurrency: 1 })).rejects.toThrow('sync');
+        await expect(promisePool([throwing, () => delay(10, 1)])).rejects.toThrow('sync');
+        await expect(promiseSettledPool([throwing, () => delay(10, 1), throwing], { concurrency: 1 })).resolves.toEqual([
+            { status: 'rejected', reason: new Error('sync') },
+            { status: 'fulfilled', value: 1 },
+            { status: 'rejected', reason: new Error('sync') },
+        ]);
+        await expect(promiseSettledPool([() => delay(10, 1)], { concurrency: NaN })).rejects.toThrow(RangeError);
+        await expect(promisePool([() => delay(10, 1)], { concurrency: 1.5 })).rejects.toThrow(RangeError);
+        await expect(promisePool<number>([
+            () => delay(50, 1),
+            () => Promise.reject('error'),
+            () => delay(50, 3)
+        ])).rejects.toEqual('error');
+    });
+
+    it('promiseSettledPool', async () => {
+        await expect(promiseSettledPool<number>([
+            () => delay(100, 1),
+            () => Promise.reject(2),
+            () => delay(10, 3)
+        ], { concurrency: 2 })).resolves.toEqual([
+            { status: 'fulfilled', value: 1 },
+            { status: 'rejected', reason: 2 },
+            { status: 'fulfilled', value: 3 },
+        ]);
+        const controller = new AbortController();
+        const runPromise = promiseSettledPool<number>([
+            () => delay(50, 1),
+            () => delay(500, 2),
+            () => delay(500, 3)
+        ], { concurrency: 1, signal: controller.signal });
+        window.setTimeout(() => controller.abort(), 100);
+        await expect(runPromise).rejects.toMatchObject({ step: 1 });
+    });
+
     it.skip('tryRequest', async () => {
         const runPromise = (url) => tryRequest({
             times: 3,
@@ -113,6 +268,47 @@ describe('utility', () => {
         await expect(runPromise('http://doesntexist12345.com')).rejects.toBeInstanceOf(Error);
     });
 
+    it('tryRequest retry policy', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(null, { status: 503, headers: { 'Retry-After': '0' } }))
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        const onRetry = vi.fn();
+        const response = await tryRequest({ times: 3, url: '/data', retryDelay: 10, onRetry });
+        expect(response.status).toEqual(200);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(onRetry).toHaveBeenNthCalledWith(1, expect.objectContaining({ attempt: 1, delay: 0 }));
+        expect(onRetry).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 2, error: expect.any(TypeError) }));
+
+        fetchMock.mockReset().mockResolvedValue(new Response(null, { status: 404 }));
+        await expect(tryRequest({ times: 3, url: '/data', retryDelay: 10 })).rejects.toMatchObject({ status: 404 });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        fetchMock.mockReset().mockImplementation((_url, { signal }) => new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+        }));
+        await expect(tryRequest({ times: 2, url: '/data', timeout: 20, retryDelay: 10 })).rejects.toMatchObject({
+            name: 'TimeoutError'
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        fetchMock.mockReset().mockImplementation(
+            () => Promise.resolve(new Response(null, { status: 503, headers: { 'Retry-After': '3' } }))
+        );
+        const controller = new AbortController();
+        const aborted = tryRequest({
+            times: 3, url: '/data', maxRetryDelay: 500, options: { signal: controller.signal }, onRetry
+        });
+        window.setTimeout(() => controller.abort(new DOMException('Aborted', 'AbortError')), 100);
+        const start = Date.now();
+        await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+        expect(Date.now() - start).toBeLessThan(400);
+        expect(onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ delay: 500 }));
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        vi.unstubAllGlobals();
+    });
+
     it('macrotask', async () => {
         const callbacks = {
             first: () => 1
@@ -141,6 +337,42 @@ describe('utility', () => {
         expect(desc).toEqual([8, 7, 3, 2, 1]);
     });
 
+    it('compareTyped', () => {
+        expect(compareTyped('file2', 'file10')).toEqual(-1);
+        expect(compareTyped('file2', 'file10', { natural: false })).toEqual(1);
+        expect(compareTyped(new Date(2020, 0), new Date(2019, 0))).toEqual(1);
+        expect([undefined, 'b', null, new Date(5), { a: 1 }, 3, NaN, true, 1n, new Date(NaN), false].sort(compareTyped))
+            .toEqual([false, true, 1n, 3, NaN, new Date(5), new Date(NaN), 'b', { a: 1 }, null, undefined]);
+        expect(['10', '9', '100'].sort(
+            (a, b) => sortDescriptor(a, b, SortDirection.desc, true)
+        )).toEqual(['100', '10', '9']);
+        expect(['b', null, 'a'].sort(createComparator<string | null>(
+            [(value) => value], { typed: true, nulls: 'first' }
+        ))).toEqual([null, 'a', 'b']);
+    });
+
+    it('createComparator', () => {
+        const rows = [
+            { team: 'b', points: 3, name: 'Éva' },
+            { team: 'a', points: 1, name: 'Zoli' },
+            { team: 'b', points: 5, name: 'Anna' },
+            { team: 'a', points: 1, name: 'ádám' },
+            { team: null, points: 9, name: 'Béla' },
+        ];
+        expect([...rows].sort(createComparator<typeof rows[number]>([
+            'team',
+            { key: 'points', order: SortDirection.desc },
+            (row) => row.name.toLowerCase()
+        ])).map(row => row.name)).toEqual(['ádám', 'Zoli', 'Anna', 'Éva', 'Béla']);
+        expect([...rows].sort(createComparator<typeof rows[number]>(
+            [{ key: 'team', order: SortDirection.desc }], { nulls: 'first' }
+        )).map(row => row.team)).toEqual([null, 'b', 'b', 'a', 'a']);
+        expect(['file10', 'file2', 'File1'].sort(createComparator<string>(
+            [(value) => value], { locale: 'en', numeric: true, sensitivity: 'base' }
+        ))).toEqual(['File1', 'file2', 'file10']);
+        expect(['file10', 'file2'].sort(createComparator<string>([(value) => value]))).toEqual(['file10', 'file2']);
+    });
+
     it('intersectionIntervals', () => {
         expect(Interval.intersection([1, 4], [6, 9])).toEqual(null);
         expect(Interval.intersection([1, 10], [1, 10])).toEqual([1, 10]);
@@ -298,6 +530,17 @@ describe('utility', () => {
             ]);
         });
         
+        it('sort typed', () => {
+            const dates = [
+                { id: 1, date: new Date(2024, 5, 1), file: 'file10' },
+                { id: 2, date: new Date(2023, 0, 1), file: 'file2' },
+                { id: 3, date: new Date(2024, 0, 1), file: 'file1' },
+            ];
+            expect(ArrayOfObjects.take(ArrayOfObjects.sort(dates, 'date', SortDirection.asc, true), 'id')).toEqual([2, 3, 1]);
+            expect(ArrayOfObjects.take(ArrayOfObjects.sortByValue(dates, item => item.file, SortDirection.desc, true), 'id'))
+                .toEqual([1, 2, 3]);
+        });
+
         it('sortByValue', () => {
             expect(ArrayOfObjects.sortByValue([], _value => null)).toEqual([]);
             expect(ArrayOfObjects.sortByValue([
@@ -324,6 +567,101 @@ describe('utility', () => {
             ]);
         });
 
+        it('toSorted', () => {
+            const source = [...source3];
+            expect(ArrayOfObjects.toSorted(source, 'age')).toEqual(source2);
+            expect(ArrayOfObjects.toSortedByValue(source, value => -value.num)).toEqual([...source2].reverse());
+            expect(source).toEqual(source3);
+        });
+
+        it('toSortedByList', () => {
+            const tasks = [
+                { id: 1, status: 'done' },
+                { id: 2, status: 'new' },
+                { id: 3, status: 'open' },
+                { id: 4, status: 'archived' },
+                { id: 5, status: 'open' },
+            ];
+            const list = ['open', 'done'];
+            expect(ArrayOfObjects.take(ArrayOfObjects.toSortedByList(tasks, 'status', list), 'id')).toEqual([3, 5, 1, 2, 4]);
+            expect(ArrayOfObjects.take(ArrayOfObjects.toSortedByList(tasks, 'status', list, SortDirection.desc, 'first'), 'id'))
+                .toEqual([2, 4, 1, 3, 5]);
+            expect(ArrayOfObjects.take(tasks, 'id')).toEqual([1, 2, 3, 4, 5]);
+        });
+
+        it('top', () => {
+            const source = [
+                { id: 1, score: 5 },
+                { id: 2, score: 9 },
+                { id: 3, score: 1 },
+                { id: 4, score: 9 },
+                { id: 5, score: 3 },
+            ];
+            expect(ArrayOfObjects.take(ArrayOfObjects.top(source, 'score', 2), 'id')).toEqual([3, 5]);
+            expect(ArrayOfObjects.take(ArrayOfObjects.top(source, 'score', 3, SortDirection.desc), 'id')).toEqual([2, 4, 1]);
+            expect(ArrayOfObjects.take(ArrayOfObjects.topByValue(source, item => item.score % 3, 2), 'id')).toEqual([2, 4]);
+            expect(ArrayOfObjects.top(source, 'score', 10)).toEqual(ArrayOfObjects.toSorted(source, 'score'));
+            expect(ArrayOfObjects.top(source, 'score', 0)).toEqual([]);
+        });
+
+        const rows = [
+            { team: 'a', player: 'x', points: 3, date: new Date(2024, 1, 1) },
+            { team: 'b', player: 'y', points: 5, date: new Date(2024, 3, 1) },
+            { team: 'a', player: 'y', points: 9, date: new Date(2023, 0, 1) },
+            { team: 'a', player: 'x', points: 1, date: new Date(2024, 5, 1) },
+        ];
+
+        it('groupBy', () => {
+            const groups = ArrayOfObjects.groupBy(rows, 'team');
+            expect([...groups.keys()]).toEqual(['a', 'b']);
+            expect(groups.get('a')?.map(row => row.points)).toEqual([3, 9, 1]);
+            expect([...ArrayOfObjects.groupBy(rows, row => row.points > 4).keys()]).toEqual([false, true]);
+            expect(ArrayOfObjects.groupByNested(rows, ['team', 'player'])).toEqual({
+                a: { x: [rows[0], rows[3]], y: [rows[2]] },
+                b: { y: [rows[1]] },
+            });
+            expect(() => ArrayOfObjects.groupByNested(rows, [])).toThrow(TypeError);
+            expect(() => ArrayOfObjects.groupByNested([{ k: 1 }, { k: '1' }], ['k'])).toThrow(TypeError);
+            expect(() => ArrayOfObjects.groupByNested([{ k: null }, { k: 'null' }], ['k'])).toThrow(TypeError);
+        });
+
+        it('aggregate', () => {
+            expect(Object.fromEntries(ArrayOfObjects.aggregate(rows, 'team', {
+                total: Aggregate.sum('points'),
+                avg: Aggregate.avg('points'),
+                min: Aggregate.min('points'),
+                last: Aggregate.max('date'),
+                count: Aggregate.count(),
+                players: Aggregate.reduce((acc: string[], row) => (acc.includes(row.player) ? acc : [...acc, row.player]), []),
+                custom: (items: typeof rows) => items.length * 2,
+            }))).toEqual({
+                a: { total: 13, avg: 13 / 3, min: 1, last: new Date(2024, 5, 1), count: 3, players: ['x', 'y'], custom: 6 },
+                b: { total: 5, avg: 5, min: 5, last: new Date(2024, 3, 1), count: 1, players: ['y'], custom: 2 },
+            });
+            expect(Aggregate.avg('points')([])).toEqual(null);
+            expect(Aggregate.max('points')([])).toEqual(null);
+            const missing = [{ p: 5 }, { p: null }, { p: 3 }, { p: undefined }];
+            expect(Aggregate.max('p')(missing)).toEqual(5);
+            expect(Aggregate.min('p')(missing)).toEqual(3);
+            expect(Aggregate.sum('p')(missing)).toEqual(8);
+            expect(Aggregate.avg('p')(missing)).toEqual(4);
+            expect(Aggregate.avg('p')([{ p: null }])).toEqual(null);
+            expect(Aggregate.min('p')([{ p: undefined }])).toEqual(null);
+        });
+
+        it('pivot', () => {
+            expect(ArrayOfObjects.pivot(rows, 'team', 'player', Aggregate.sum('points'))).toEqual({
+                a: { x: 4, y: 9 },
+                b: { y: 5 },
+            });
+            expect(ArrayOfObjects.pivot(rows, 'player', row => row.date.getFullYear(), Aggregate.count(), 0)).toEqual({
+                x: { 2024: 2, 2023: 0 },
+                y: { 2024: 1, 2023: 1 },
+            });
+            expect(() => ArrayOfObjects.pivot([{ r: 1, c: 'a' }, { r: '1', c: 'a' }], 'r', 'c', Aggregate.count())).toThrow(TypeError);
+            expect(() => ArrayOfObjects.pivot([{ r: 1, c: 1 }, { r: 1, c: '1' }], 'r', 'c', Aggregate.count())).toThrow(TypeError);
+        });
+
         it('find', () => {
             expect(ArrayOfObjects.find(source3, 'age', 100)).toEqual(null);
             expect(ArrayOfObjects.find(source3, 'age', 21)).toEqual({ num: 2, name: 'b', age: 21 });
@@ -541,6 +879,14 @@ describe('utility', () => {
             await expect(FILE.base64ToBlob('data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=')).resolves.toBeInstanceOf(Blob);
         });
 
+        it('bytesToBase64, base64ToBytes, blobToBase64', async () => {
+            const bytes = new Uint8Array(0x10001).map((_, i) => i % 256);
+            const base64 = FILE.bytesToBase64(bytes);
+            expect(FILE.base64ToBytes(base64)).toEqual(bytes);
+            expect(FILE.bytesToBase64(new Uint8Array([60, 115, 118, 103, 62]))).toEqual('PHN2Zz4=');
+            await expect(FILE.blobToBase64(new Blob([bytes]))).resolves.toEqual(base64);
+        });
+
         it.skip('download', () => { });
 
     });